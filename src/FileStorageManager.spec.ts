@@ -1,14 +1,21 @@
-import { describe, it, beforeAll, afterAll, expect } from "vitest";
-import {
-  type FileStorageManager,
-  createSQLiteVault,
-} from "./FileStorageManager.ts";
+import { describe, it, beforeAll, afterAll, expect, assert, vi } from "vitest";
+import BetterDatabase from "better-sqlite3";
+import { FileStorageManager, createSQLiteVault } from "./FileStorageManager.ts";
+import { VaultError } from "./errors.ts";
 import fs from "node:fs/promises";
+import { createReadStream } from "node:fs";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { createHash, randomBytes } from "node:crypto";
 import path from "path";
+import os from "node:os";
 import {
+  deleteStorageDB,
   getStorageManagerState,
   setStorageManagerState,
 } from "./tests-utils/fixtures/storageDB.ts";
+import { createTarArchive } from "./archives.ts";
+import { sqlarCompress } from "./compression.ts";
 import { mockTextFiles } from "./tests-utils/mocks/mockFiles.ts";
 
 const storageDBName = `test_${Date.now()}.sqlar`;
@@ -478,6 +485,529 @@ describe("FileStorageManager", () => {
     expect(updatedFile.error).toBe("FileNotFound");
   });
 
+  it("should be able to store a file through a write stream and retrieve it", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+    const fileName = "drive-breakbeat-173062.mp3";
+    const filePath = path.resolve("src", "tests-utils", "mocks", fileName);
+
+    const originalFile = await fs.readFile(filePath);
+
+    await pipeline(
+      createReadStream(filePath),
+      storage.createWriteStream(["root", "mp3"], fileName),
+    );
+
+    const { success, file } = await storage.retrieveFile(
+      ["root", "mp3"],
+      fileName,
+    );
+
+    expect(success).toBe(true);
+    expect(file).toHaveProperty("fileNameWithPath", `/root/mp3/${fileName}`);
+    expect(file).toHaveProperty("sz", originalFile.length);
+    expect(file?.data.equals(originalFile)).toBe(true);
+
+    const streamedContent = Buffer.concat(
+      await storage.createReadStream(["root", "mp3"], fileName).toArray(),
+    );
+
+    expect(streamedContent.equals(originalFile)).toBe(true);
+  });
+
+  it("should be able to read a byte range through a read stream", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+    const fileName = "drylab.pdf";
+
+    const originalFile = await fs.readFile(
+      path.resolve("src", "tests-utils", "mocks", fileName),
+    );
+
+    const rangeOfStoredFile = Buffer.concat(
+      await storage
+        .createReadStream(["root", "pdf"], fileName, {
+          start: 1000,
+          end: 200000,
+        })
+        .toArray(),
+    );
+
+    expect(rangeOfStoredFile.equals(originalFile.subarray(1000, 200001))).toBe(
+      true,
+    );
+
+    const rangeOfStreamedFile = Buffer.concat(
+      await storage
+        .createReadStream(["root", "mp3"], "drive-breakbeat-173062.mp3", {
+          start: 1048000,
+          end: 2100000,
+        })
+        .toArray(),
+    );
+    const originalStreamedFile = await fs.readFile(
+      path.resolve("src", "tests-utils", "mocks", "drive-breakbeat-173062.mp3"),
+    );
+
+    expect(
+      rangeOfStreamedFile.equals(
+        originalStreamedFile.subarray(1048000, 2100001),
+      ),
+    ).toBe(true);
+  });
+
+  it("should be able to retrieve a byte range of a file", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+    const fileName = "drylab.pdf";
+
+    const originalFile = await fs.readFile(
+      path.resolve("src", "tests-utils", "mocks", fileName),
+    );
+
+    const { success, file } = await storage.retrieveFileRange(
+      ["root", "pdf"],
+      fileName,
+      100,
+      1099,
+    );
+
+    expect(success).toBe(true);
+    expect(file).toHaveProperty("sz", originalFile.length);
+    expect(file).toHaveProperty("start", 100);
+    expect(file).toHaveProperty("end", 1099);
+    expect(file?.data.equals(originalFile.subarray(100, 1100))).toBe(true);
+
+    const { file: lastBytes } = await storage.retrieveFileRange(
+      ["root", "mp3"],
+      "drive-breakbeat-173062.mp3",
+      3000000,
+    );
+    const originalStreamedFile = await fs.readFile(
+      path.resolve("src", "tests-utils", "mocks", "drive-breakbeat-173062.mp3"),
+    );
+
+    expect(lastBytes).toHaveProperty("end", originalStreamedFile.length - 1);
+    expect(lastBytes?.data.equals(originalStreamedFile.subarray(3000000))).toBe(
+      true,
+    );
+  });
+
+  it("should NOT be able to retrieve an out-of-range byte range of a file", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+    const fileName = "drylab.pdf";
+
+    const outOfRangeOpStatus = await storage.retrieveFileRange(
+      ["root", "pdf"],
+      fileName,
+      100000000,
+    );
+
+    expect(outOfRangeOpStatus.success).toBe(false);
+    expect(outOfRangeOpStatus.error).toBe("RangeNotSatisfiable");
+    expect(outOfRangeOpStatus.sz).toBeGreaterThan(0);
+
+    const nonExistingOpStatus = await storage.retrieveFileRange(
+      ["root", "pdf"],
+      "non-existing.pdf",
+      0,
+    );
+
+    expect(nonExistingOpStatus.success).toBe(false);
+    expect(nonExistingOpStatus.error).toBe("FileNotFound");
+  });
+
+  it("should NOT be able to store a file through a write stream with the same name", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+    const fileName = "drive-breakbeat-173062.mp3";
+
+    await expect(
+      pipeline(
+        createReadStream(path.resolve("src", "tests-utils", "mocks", fileName)),
+        storage.createWriteStream(["root", "mp3"], fileName),
+      ),
+    ).rejects.toThrow("FileAlreadyExists");
+  });
+
+  it("should NOT be able to read a non-existing file through a read stream", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+
+    await expect(
+      storage.createReadStream(["root", "mp3"], "non-existing.mp3").toArray(),
+    ).rejects.toThrow("FileNotFound");
+  });
+
+  it("should be able to create a directory and list it", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+
+    const createDirOpStatus = await storage.createDirectory([
+      "root",
+      "empty",
+      "nested",
+    ]);
+
+    expect(createDirOpStatus.success).toBe(true);
+    expect(createDirOpStatus.directoryWithPath).toBe("/root/empty/nested");
+
+    const createExistingDirOpStatus = await storage.createDirectory([
+      "root",
+      "empty",
+    ]);
+
+    expect(createExistingDirOpStatus.success).toBe(false);
+    expect(createExistingDirOpStatus.error).toBe("DirectoryAlreadyExists");
+
+    const listDirsOpStatus = await storage.listDirectories(["root"]);
+
+    expect(listDirsOpStatus.success).toBe(true);
+    expect(listDirsOpStatus.directories.map(({ name }) => name)).toEqual(
+      expect.arrayContaining(["empty", "mp3", "pdf", "text"]),
+    );
+    expect(
+      listDirsOpStatus.directories.find(({ name }) => name === "empty"),
+    ).toHaveProperty("directoryWithPath", "/root/empty");
+
+    const listNestedDirsOpStatus = await storage.listDirectories([
+      "root",
+      "empty",
+    ]);
+
+    expect(listNestedDirsOpStatus.directories).toEqual([
+      { name: "nested", directoryWithPath: "/root/empty/nested" },
+    ]);
+
+    const listFilesOpStatus = await storage.listFiles(["root", "empty"]);
+
+    expect(listFilesOpStatus.totalFiles).toBe(0);
+  });
+
+  it("should be able to rename a directory with all its files", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+    const fileName = "drive-breakbeat-173062.mp3";
+
+    const renameDirOpStatus = await storage.renameDirectory(
+      ["root", "mp3"],
+      ["root", "audio", "mp3"],
+    );
+
+    expect(renameDirOpStatus.success).toBe(true);
+    expect(renameDirOpStatus.newDirectoryWithPath).toBe("/root/audio/mp3");
+
+    const { success, file } = await storage.retrieveFile(
+      ["root", "audio", "mp3"],
+      fileName,
+    );
+    const originalFile = await fs.readFile(
+      path.resolve("src", "tests-utils", "mocks", fileName),
+    );
+
+    expect(success).toBe(true);
+    expect(file?.data.equals(originalFile)).toBe(true);
+
+    const retrieveOldFileOpStatus = await storage.retrieveFile(
+      ["root", "mp3"],
+      fileName,
+    );
+
+    expect(retrieveOldFileOpStatus.success).toBe(false);
+
+    const renameNonExistingDirOpStatus = await storage.renameDirectory(
+      ["root", "mp3"],
+      ["root", "audio", "mp3"],
+    );
+
+    expect(renameNonExistingDirOpStatus.success).toBe(false);
+    expect(renameNonExistingDirOpStatus.error).toBe("DirectoryNotFound");
+
+    const renameToExistingDirOpStatus = await storage.renameDirectory(
+      ["root", "empty"],
+      ["root", "audio"],
+    );
+
+    expect(renameToExistingDirOpStatus.success).toBe(false);
+    expect(renameToExistingDirOpStatus.error).toBe("DirectoryAlreadyExists");
+  });
+
+  it("should be able to delete all files in a directory and its directory entries", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+
+    const deleteOpStatus = await storage.deleteDirectoryFiles(
+      ["root", "audio"],
+      true,
+    );
+
+    expect(deleteOpStatus.success).toBe(true);
+
+    const listDirsOpStatus = await storage.listDirectories(["root"]);
+
+    expect(listDirsOpStatus.directories.map(({ name }) => name)).not.toContain(
+      "audio",
+    );
+
+    const deleteEmptyDirsOpStatus = await storage.deleteDirectoryFiles(
+      ["root", "empty"],
+      true,
+    );
+
+    expect(deleteEmptyDirsOpStatus.success).toBe(true);
+
+    const deleteRemovedDirOpStatus = await storage.deleteDirectoryFiles(
+      ["root", "empty"],
+      true,
+    );
+
+    expect(deleteRemovedDirOpStatus.success).toBe(false);
+    expect(deleteRemovedDirOpStatus.error).toBe("DirectoryAlreadyEmpty");
+  });
+
+  it("should be able to list only the direct children of a directory", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+    const file = Buffer.from("Hello World!");
+
+    await storage.storeFile(["tree"], "a.txt", file);
+    await storage.storeFile(["tree", "docs"], "b.txt", file);
+    await storage.storeFile(["tree", "docs", "deep"], "c.txt", file);
+
+    const listChildrenOpStatus = await storage.listFiles(
+      ["tree"],
+      20,
+      1,
+      "name",
+      "ASC",
+      false,
+    );
+
+    expect(listChildrenOpStatus.success).toBe(true);
+    expect(listChildrenOpStatus.totalFiles).toBe(1);
+    expect(listChildrenOpStatus.totalDirectories).toBe(1);
+    expect(listChildrenOpStatus.files).toEqual([
+      expect.objectContaining({
+        name: "a.txt",
+        fileNameWithPath: "/tree/a.txt",
+        sz: file.byteLength,
+      }),
+    ]);
+    expect(listChildrenOpStatus.directories).toEqual([
+      expect.objectContaining({
+        name: "docs",
+        directoryWithPath: "/tree/docs",
+        totalFiles: 2,
+        sz: file.byteLength * 2,
+      }),
+    ]);
+
+    const firstPageOpStatus = await storage.listFiles(
+      ["tree"],
+      1,
+      1,
+      "name",
+      "ASC",
+      false,
+    );
+
+    expect(firstPageOpStatus.directories?.length).toBe(1);
+    expect(firstPageOpStatus.files.length).toBe(0);
+
+    const secondPageOpStatus = await storage.listFiles(
+      ["tree"],
+      1,
+      2,
+      "name",
+      "ASC",
+      false,
+    );
+
+    expect(secondPageOpStatus.directories?.length).toBe(0);
+    expect(secondPageOpStatus.files[0].fileNameWithPath).toBe("/tree/a.txt");
+  });
+
+  it("should be able to store a file with metadata and retrieve it", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+    const fileContent = "Hello World!";
+    const originalFile = new Blob([fileContent], { type: "text/plain" });
+
+    await storage.storeFile(["meta"], "hello.txt", originalFile, undefined, {
+      tags: { owner: "john", originalName: "Hello World.txt" },
+    });
+    await storage.storeFile(
+      ["meta"],
+      "hello.json",
+      Buffer.from("{}"),
+      undefined,
+      { contentType: "application/json" },
+    );
+
+    const { file } = await storage.retrieveFile(["meta"], "hello.txt");
+
+    expect(file).toHaveProperty("contentType", "text/plain");
+    expect(file).toHaveProperty(
+      "checksum",
+      createHash("sha256").update(fileContent).digest("hex"),
+    );
+    expect(file).toHaveProperty("tags", {
+      owner: "john",
+      originalName: "Hello World.txt",
+    });
+
+    const { files } = await storage.listFiles(["meta"]);
+
+    expect(files.map(({ contentType }) => contentType)).toEqual([
+      "application/json",
+      "text/plain",
+    ]);
+  });
+
+  it("should be able to stat a file without its content", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+
+    const { success, file } = await storage.statFile(["meta"], "hello.txt");
+
+    expect(success).toBe(true);
+    expect(file).toMatchObject({
+      fileNameWithPath: "/meta/hello.txt",
+      sz: 12,
+      contentType: "text/plain",
+      tags: { owner: "john", originalName: "Hello World.txt" },
+    });
+    expect(file).not.toHaveProperty("data");
+    expect(await storage.statFile(["meta"], "missing.txt")).toEqual({
+      success: false,
+      error: "FileNotFound",
+    });
+  });
+
+  it("should be able to stat a directory with the totals of its files", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+
+    await storage.createDirectory(["meta", "empty"]);
+
+    const { success, directory } = await storage.statDirectory(["meta"]);
+
+    expect(success).toBe(true);
+    expect(directory).toMatchObject({
+      name: "meta",
+      directoryWithPath: "/meta",
+      totalFiles: 2,
+      sz: 14,
+    });
+    expect(
+      (await storage.statDirectory(["meta", "empty"])).directory,
+    ).toMatchObject({ totalFiles: 0, sz: 0 });
+    expect((await storage.statDirectory([])).success).toBe(true);
+    expect(await storage.statDirectory(["meta", "hello.txt"])).toEqual({
+      success: false,
+      error: "DirectoryNotFound",
+    });
+  });
+
+  it("should keep the metadata of a renamed file", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+
+    await storage.renameFile(["meta"], "hello.txt", "renamed.txt", [
+      "meta",
+      "renamed",
+    ]);
+
+    const { file } = await storage.retrieveFile(
+      ["meta", "renamed"],
+      "renamed.txt",
+    );
+
+    expect(file).toHaveProperty("contentType", "text/plain");
+    expect(file).toHaveProperty("tags", {
+      owner: "john",
+      originalName: "Hello World.txt",
+    });
+
+    await storage.deleteFile(["meta", "renamed"], "renamed.txt");
+    await storage.storeFile(
+      ["meta", "renamed"],
+      "renamed.txt",
+      Buffer.from("Hello World!"),
+    );
+
+    const { file: storedAgain } = await storage.retrieveFile(
+      ["meta", "renamed"],
+      "renamed.txt",
+    );
+
+    expect(storedAgain).toHaveProperty("contentType", null);
+    expect(storedAgain).toHaveProperty("tags", {});
+  });
+
+  it("should be able to query files by extension, size, modified time and tags", async () => {
+    const storage = getStorageManagerState() as FileStorageManager;
+    const now = Math.round(Date.now() / 1000);
+    const ninetyDaysAgo = now - 90 * 24 * 60 * 60;
+
+    await storage.storeFile(
+      ["query", "reports"],
+      "old-report.PDF",
+      Buffer.alloc(2048),
+      ninetyDaysAgo - 60,
+      { contentType: "application/pdf", tags: { owner: "john" } },
+    );
+    await storage.storeFile(
+      ["query", "reports"],
+      "new-report.pdf",
+      Buffer.alloc(4096),
+      now,
+      { contentType: "application/pdf", tags: { owner: "mary" } },
+    );
+    await storage.storeFile(
+      ["query"],
+      "small-report.pdf",
+      Buffer.alloc(16),
+      ninetyDaysAgo - 60,
+    );
+    await storage.storeFile(["query"], "notes.txt", Buffer.alloc(4096), now);
+
+    const oldLargePdfs = await storage.queryFiles({
+      dir: ["query"],
+      extension: "pdf",
+      minSize: 1024,
+      modifiedBefore: ninetyDaysAgo,
+    });
+
+    expect(oldLargePdfs.success).toBe(true);
+    expect(oldLargePdfs.totalFiles).toBe(1);
+    expect(oldLargePdfs.files[0].fileNameWithPath).toBe(
+      "/query/reports/old-report.PDF",
+    );
+
+    const reportsByMary = await storage.queryFiles({
+      namePattern: "*-report.pdf",
+      contentType: "application/pdf",
+      tags: { owner: "mary" },
+    });
+
+    expect(reportsByMary.files.map((f) => f.fileNameWithPath)).toEqual([
+      "/query/reports/new-report.pdf",
+    ]);
+
+    const largestFiles = await storage.queryFiles({
+      dir: ["query"],
+      modifiedAfter: now - 1,
+      filesPerPage: 1,
+      pageNumber: 2,
+      orderBy: "name",
+      order: "DESC",
+    });
+
+    expect(largestFiles.totalFiles).toBe(2);
+    expect(largestFiles.currentPage).toBe(2);
+    expect(largestFiles.files.map((f) => f.fileNameWithPath)).toEqual([
+      "/query/notes.txt",
+    ]);
+
+    const nextFiles = await storage.queryFiles({
+      dir: ["query"],
+      after: "/query/reports/new-report.pdf",
+    });
+
+    expect(nextFiles.files.map((f) => f.fileNameWithPath)).toEqual([
+      "/query/reports/old-report.PDF",
+      "/query/small-report.pdf",
+    ]);
+  });
+
   it("should be able to delete all files from the storage", async () => {
     const storage = getStorageManagerState() as FileStorageManager;
     const { total } = await storage.getTotalFiles();
@@ -505,3 +1035,2054 @@ describe("FileStorageManager", () => {
       .catch(() => {});
   });
 });
+
+describe("FileStorageManager with deduplication", () => {
+  const dedupStorageDBName = `test_dedup_${Date.now()}.sqlar`;
+  let storage: FileStorageManager;
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(dedupStorageDBName, {
+      deduplicate: true,
+    });
+  });
+
+  it("should store the same content only once and retrieve it for every file", async () => {
+    const fileName = "drylab.pdf";
+    const originalFile = await fs.readFile(
+      path.resolve("src", "tests-utils", "mocks", fileName),
+    );
+
+    await storage.storeFile(["root", "a"], fileName, originalFile);
+    await storage.storeFile(["root", "b"], fileName, originalFile);
+
+    const { total } = await storage.getTotalFiles();
+
+    expect(total).toBe(2);
+
+    const retrievedA = await storage.retrieveFile(["root", "a"], fileName);
+    const retrievedB = await storage.retrieveFile(["root", "b"], fileName);
+
+    expect(retrievedA.file?.data.equals(originalFile)).toBe(true);
+    expect(retrievedB.file?.data.equals(originalFile)).toBe(true);
+    expect(retrievedB.file).toHaveProperty("sz", originalFile.length);
+
+    const range = await storage.retrieveFileRange(
+      ["root", "b"],
+      fileName,
+      10,
+      19,
+    );
+
+    expect(range.file?.data.equals(originalFile.subarray(10, 20))).toBe(true);
+  });
+
+  it("should keep the shared content while another file references it", async () => {
+    const fileName = "drylab.pdf";
+    const originalFile = await fs.readFile(
+      path.resolve("src", "tests-utils", "mocks", fileName),
+    );
+
+    const updatedFile = await storage.updateFileContent(
+      ["root", "a"],
+      fileName,
+      Buffer.from("Hello World!_NEW_CONTENT"),
+    );
+
+    expect(updatedFile.success).toBe(true);
+
+    const deleteOpStatus = await storage.deleteFile(["root", "a"], fileName);
+
+    expect(deleteOpStatus.success).toBe(true);
+
+    await storage.renameFile(["root", "b"], fileName, "renamed.pdf", ["c"]);
+
+    const retrieved = await storage.retrieveFile(["c"], "renamed.pdf");
+
+    expect(retrieved.success).toBe(true);
+    expect(retrieved.file?.data.equals(originalFile)).toBe(true);
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(dedupStorageDBName);
+  });
+});
+
+describe("FileStorageManager with full-text search", () => {
+  const ftsStorageDBName = `test_fts_${Date.now()}.sqlar`;
+  let storage: FileStorageManager;
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(ftsStorageDBName, {
+      fullTextSearch: true,
+    });
+  });
+
+  it("should be able to search text files by their content", async () => {
+    await storage.storeFile(
+      ["docs"],
+      "invoice.txt",
+      Buffer.from("Invoice 42\nThe total amount was paid in full."),
+    );
+    await storage.storeFile(
+      ["docs", "csv"],
+      "payments.csv",
+      Buffer.from("id,status\n42,paid\n43,pending"),
+    );
+    await storage.storeFile(
+      ["docs"],
+      "drylab.pdf",
+      await fs.readFile(
+        path.resolve("src", "tests-utils", "mocks", "drylab.pdf"),
+      ),
+    );
+
+    const paidFiles = await storage.searchContent("paid", []);
+
+    expect(paidFiles.success).toBe(true);
+    expect(paidFiles.totalFiles).toBe(2);
+
+    const totalAmount = await storage.searchContent('"total amount"', ["docs"]);
+
+    expect(totalAmount.files?.map((f) => f.fileNameWithPath)).toEqual([
+      "/docs/invoice.txt",
+    ]);
+    expect(totalAmount.files?.[0].snippet).toContain(
+      "<mark>total amount</mark>",
+    );
+
+    const inCsvDir = await storage.searchContent("paid", ["docs", "csv"]);
+
+    expect(inCsvDir.files?.map((f) => f.fileNameWithPath)).toEqual([
+      "/docs/csv/payments.csv",
+    ]);
+
+    const invalidQuery = await storage.searchContent('"unterminated', []);
+
+    expect(invalidQuery.success).toBe(false);
+    expect(invalidQuery.error).toBe("InvalidQuery");
+
+    for (const query of ["paid AND", "unknown:paid"]) {
+      expect((await storage.searchContent(query, [])).error).toBe(
+        "InvalidQuery",
+      );
+    }
+  });
+
+  it("should NOT report the other errors of a search as an invalid query", async () => {
+    const db = new BetterDatabase(":memory:");
+    const storageWithoutIndex = await createSQLiteVault(db, {
+      fullTextSearch: true,
+    });
+    db.exec("DROP TABLE sqlar_fts");
+
+    await expect(
+      storageWithoutIndex.searchContent("paid", []),
+    ).rejects.toMatchObject({ code: "StorageError" });
+    db.close();
+  });
+
+  it("should keep the index up to date when files are changed", async () => {
+    await storage.updateFileContent(
+      ["docs"],
+      "invoice.txt",
+      Buffer.from("Invoice 42\nThe total amount is overdue."),
+    );
+    await storage.renameFile(["docs", "csv"], "payments.csv", "paid.csv", [
+      "archive",
+    ]);
+
+    const paidFiles = await storage.searchContent("paid", []);
+
+    expect(paidFiles.files?.map((f) => f.fileNameWithPath)).toEqual([
+      "/archive/paid.csv",
+    ]);
+
+    await storage.deleteFile(["archive"], "paid.csv");
+
+    const paidFilesAfterDelete = await storage.searchContent("paid", []);
+
+    expect(paidFilesAfterDelete.totalFiles).toBe(0);
+  });
+
+  it("should NOT be able to search content without the full-text search option", async () => {
+    const withoutFtsStorageDBName = `test_no_fts_${Date.now()}.sqlar`;
+    const storageWithoutFts = await createSQLiteVault(withoutFtsStorageDBName);
+
+    const searchOpStatus = await storageWithoutFts.searchContent("paid", []);
+
+    expect(searchOpStatus.success).toBe(false);
+    expect(searchOpStatus.error).toBe("FullTextSearchDisabled");
+
+    await deleteStorageDB(withoutFtsStorageDBName);
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(ftsStorageDBName);
+  });
+});
+
+describe("FileStorageManager with versioning", () => {
+  const versionsStorageDBName = `test_versions_${Date.now()}.sqlar`;
+  let storage: FileStorageManager;
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(versionsStorageDBName, {
+      maxVersions: 2,
+    });
+  });
+
+  it("should keep the previous contents of an updated file up to the retention limit", async () => {
+    await storage.storeFile(["docs"], "report.txt", Buffer.from("v1"));
+    await storage.updateFileContent(["docs"], "report.txt", Buffer.from("v2"));
+    await storage.updateFileContent(["docs"], "report.txt", Buffer.from("v3"));
+    await storage.updateFileContent(["docs"], "report.txt", Buffer.from("v4"));
+
+    const { success, versions } = await storage.listFileVersions(
+      ["docs"],
+      "report.txt",
+    );
+
+    expect(success).toBe(true);
+    expect(versions.map(({ version }) => version)).toEqual([3, 2]);
+
+    const { file } = await storage.retrieveFileVersion(
+      ["docs"],
+      "report.txt",
+      2,
+    );
+
+    expect(file?.data.toString()).toBe("v2");
+
+    const removedVersion = await storage.retrieveFileVersion(
+      ["docs"],
+      "report.txt",
+      1,
+    );
+
+    expect(removedVersion.success).toBe(false);
+    expect(removedVersion.error).toBe("VersionNotFound");
+  });
+
+  it("should be able to restore a previous version of a file", async () => {
+    const restoreOpStatus = await storage.restoreFileVersion(
+      ["docs"],
+      "report.txt",
+      2,
+    );
+
+    expect(restoreOpStatus.success).toBe(true);
+
+    const { file } = await storage.retrieveFile(["docs"], "report.txt");
+
+    expect(file?.data.toString()).toBe("v2");
+
+    const { file: previousContent } = await storage.retrieveFileVersion(
+      ["docs"],
+      "report.txt",
+      4,
+    );
+
+    expect(previousContent?.data.toString()).toBe("v4");
+  });
+
+  it("should keep or purge the versions of a deleted file", async () => {
+    await storage.renameFile(["docs"], "report.txt", "renamed.txt");
+    await storage.deleteFile(["docs"], "renamed.txt", true);
+
+    const keptVersions = await storage.listFileVersions(
+      ["docs"],
+      "renamed.txt",
+    );
+
+    expect(keptVersions.versions.length).toBe(2);
+
+    const restoreOpStatus = await storage.restoreFileVersion(
+      ["docs"],
+      "renamed.txt",
+      4,
+    );
+
+    expect(restoreOpStatus.success).toBe(true);
+
+    await storage.deleteFile(["docs"], "renamed.txt");
+
+    const purgedVersions = await storage.listFileVersions(
+      ["docs"],
+      "renamed.txt",
+    );
+
+    expect(purgedVersions.versions.length).toBe(0);
+  });
+
+  it("should NOT keep the current content as a version when the restore fails", async () => {
+    const db = new BetterDatabase(":memory:");
+    const limitedStorage = await createSQLiteVault(db, {
+      maxVersions: 2,
+      quota: { maxSize: 10 },
+    });
+    await limitedStorage.storeFile(
+      ["docs"],
+      "a.txt",
+      Buffer.from("1234567890"),
+    );
+    await limitedStorage.updateFileContent(["docs"], "a.txt", Buffer.from("1"));
+    await limitedStorage.storeFile(["docs"], "b.txt", Buffer.from("12345"));
+
+    expect(
+      await limitedStorage.restoreFileVersion(["docs"], "a.txt", 1),
+    ).toEqual({ success: false, error: "QuotaExceeded" });
+    expect(
+      (await limitedStorage.listFileVersions(["docs"], "a.txt")).versions.map(
+        ({ version }) => version,
+      ),
+    ).toEqual([1]);
+    expect(
+      (await limitedStorage.retrieveFile(["docs"], "a.txt")).file?.data,
+    ).toEqual(Buffer.from("1"));
+    db.close();
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(versionsStorageDBName);
+  });
+});
+
+describe("FileStorageManager with trash", () => {
+  const trashStorageDBName = `test_trash_${Date.now()}.sqlar`;
+  let storage: FileStorageManager;
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(trashStorageDBName, {
+      trash: true,
+      deduplicate: true,
+    });
+    await storage.storeFile(["docs"], "a.txt", Buffer.from("a"));
+    await storage.storeFile(["docs"], "b.txt", Buffer.from("b"));
+    await storage.storeFile(["docs", "old"], "c.txt", Buffer.from("a"), 1, {
+      tags: { owner: "john" },
+    });
+  });
+
+  it("should move a deleted file to the trash and hide it", async () => {
+    const deleteOpStatus = await storage.deleteFile(["docs"], "a.txt");
+
+    expect(deleteOpStatus.success).toBe(true);
+    expect((await storage.getTotalFiles()).total).toBe(2);
+    expect((await storage.listFiles(["docs"])).totalFiles).toBe(2);
+    expect((await storage.searchFiles("a", [])).totalFiles).toBe(0);
+    expect((await storage.retrieveFile(["docs"], "a.txt")).success).toBe(false);
+
+    const { entries, totalEntries } = await storage.listTrash();
+
+    expect(totalEntries).toBe(1);
+    expect(entries[0]).toMatchObject({
+      name: "/docs/a.txt",
+      isDirectory: 0,
+      totalFiles: 1,
+      sz: 1,
+    });
+  });
+
+  it("should NOT move a directory with a different case to the trash", async () => {
+    const deleteOpStatus = await storage.deleteDirectoryFiles(["Docs"]);
+
+    expect(deleteOpStatus.error).toBe("DirectoryAlreadyEmpty");
+    expect((await storage.listTrash()).totalEntries).toBe(1);
+    expect((await storage.listFiles(["docs"])).totalFiles).toBe(2);
+  });
+
+  it("should restore a file from the trash with its metadata", async () => {
+    await storage.deleteDirectoryFiles(["docs", "old"], true);
+
+    expect((await storage.getTotalFiles()).total).toBe(1);
+    expect((await storage.listDirectories(["docs"])).directories).toEqual([]);
+
+    const { entries } = await storage.listTrash();
+
+    expect(entries[0]).toMatchObject({
+      name: "/docs/old",
+      isDirectory: 1,
+      totalFiles: 1,
+    });
+
+    const restoreOpStatus = await storage.restoreFromTrash(entries[0].id);
+
+    expect(restoreOpStatus.success).toBe(true);
+
+    const { file } = await storage.retrieveFile(["docs", "old"], "c.txt");
+
+    expect(file?.data.toString()).toBe("a");
+    expect(file?.tags).toEqual({ owner: "john" });
+    expect((await storage.listDirectories(["docs"])).directories).toEqual([
+      { name: "old", directoryWithPath: "/docs/old" },
+    ]);
+    expect((await storage.restoreFromTrash(entries[0].id)).error).toBe(
+      "TrashEntryNotFound",
+    );
+  });
+
+  it("should not restore over a file stored at the original path", async () => {
+    await storage.storeFile(["docs"], "a.txt", Buffer.from("new"));
+    const { entries } = await storage.listTrash();
+
+    const restoreOpStatus = await storage.restoreFromTrash(entries[0].id);
+
+    expect(restoreOpStatus.success).toBe(false);
+    expect(restoreOpStatus.error).toBe("FileAlreadyExists");
+  });
+
+  it("should move all files to the trash and restore them", async () => {
+    await storage.deleteAllFiles();
+
+    expect((await storage.getTotalFiles()).total).toBe(0);
+
+    const { entries } = await storage.listTrash();
+
+    expect(entries[0]).toMatchObject({ name: "/", totalFiles: 3 });
+    expect((await storage.restoreFromTrash(entries[0].id)).success).toBe(true);
+    expect((await storage.getTotalFiles()).total).toBe(3);
+  });
+
+  it("should empty the trash by age", async () => {
+    await storage.deleteFile(["docs"], "b.txt");
+
+    const keptEntries = await storage.emptyTrash(60);
+
+    expect(keptEntries.deletedEntries).toBe(0);
+
+    const emptyOpStatus = await storage.emptyTrash();
+
+    expect(emptyOpStatus.deletedEntries).toBe(2);
+    expect((await storage.listTrash()).totalEntries).toBe(0);
+    expect((await storage.retrieveFile(["docs"], "a.txt")).file?.data).toEqual(
+      Buffer.from("new"),
+    );
+    expect(
+      (await storage.retrieveFile(["docs", "old"], "c.txt")).file?.data,
+    ).toEqual(Buffer.from("a"));
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(trashStorageDBName);
+  });
+});
+
+describe("FileStorageManager with encryption", () => {
+  const encryptedStorageDBName = `test_encrypted_${Date.now()}.sqlar`;
+  const encryptionKey = randomBytes(32);
+  const newEncryptionKey = randomBytes(32);
+  const content = Buffer.from("confidential ".repeat(100));
+  let storage: FileStorageManager;
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(encryptedStorageDBName, {
+      encryptionKey,
+      maxVersions: 1,
+    });
+  });
+
+  it("should store encrypted contents and retrieve them decrypted", async () => {
+    await storage.storeFile(["docs"], "secret.txt", content);
+    await storage.updateFileContent(["docs"], "secret.txt", content);
+
+    const { file } = await storage.retrieveFile(["docs"], "secret.txt");
+
+    expect(file?.data).toEqual(content);
+
+    const range = await storage.retrieveFileRange(
+      ["docs"],
+      "secret.txt",
+      0,
+      11,
+    );
+
+    expect(range.file?.data.toString()).toBe("confidential");
+
+    const version = await storage.retrieveFileVersion(
+      ["docs"],
+      "secret.txt",
+      1,
+    );
+
+    expect(version.file?.data).toEqual(content);
+
+    const db = new BetterDatabase(encryptedStorageDBName);
+    const { data } = db
+      .prepare("SELECT data FROM sqlar WHERE name = ?")
+      .get("/docs/secret.txt") as { data: Buffer };
+    db.close();
+
+    expect(data.includes("confidential")).toBe(false);
+  });
+
+  it("should NOT open an encrypted vault without its key", async () => {
+    await expect(createSQLiteVault(encryptedStorageDBName)).rejects.toThrow(
+      "EncryptionKeyRequired",
+    );
+    await expect(
+      createSQLiteVault(encryptedStorageDBName, {
+        encryptionKey: randomBytes(32),
+      }),
+    ).rejects.toThrow("InvalidEncryptionKey");
+  });
+
+  it("should re-encrypt the contents with a new key", async () => {
+    const invalidRekey = await storage.rekey(newEncryptionKey, encryptionKey);
+
+    expect(invalidRekey.success).toBe(false);
+    expect(invalidRekey.error).toBe("InvalidEncryptionKey");
+
+    const rekeyOpStatus = await storage.rekey(encryptionKey, newEncryptionKey);
+
+    expect(rekeyOpStatus.success).toBe(true);
+    expect(rekeyOpStatus.reencryptedRows).toBe(2);
+    expect(
+      (await storage.retrieveFile(["docs"], "secret.txt")).file?.data,
+    ).toEqual(content);
+
+    const reopenedStorage = await createSQLiteVault(encryptedStorageDBName, {
+      encryptionKey: newEncryptionKey,
+    });
+
+    expect(
+      (await reopenedStorage.retrieveFile(["docs"], "secret.txt")).file?.data,
+    ).toEqual(content);
+  });
+
+  it("should NOT return the content of a tampered file", async () => {
+    const db = new BetterDatabase(encryptedStorageDBName);
+    const { data } = db
+      .prepare("SELECT data FROM sqlar WHERE name = ?")
+      .get("/docs/secret.txt") as { data: Buffer };
+    data[data.byteLength - 1] ^= 1;
+    db.prepare("UPDATE sqlar SET data = ? WHERE name = ?").run(
+      data,
+      "/docs/secret.txt",
+    );
+    db.close();
+
+    const { success, error } = await storage.retrieveFile(
+      ["docs"],
+      "secret.txt",
+    );
+
+    expect(success).toBe(false);
+    expect(error).toBe("DecryptionFailed");
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(encryptedStorageDBName);
+  });
+});
+
+describe("FileStorageManager with local directories", () => {
+  const transferStorageDBName = `test_transfer_${Date.now()}.sqlar`;
+  let storage: FileStorageManager;
+  let localPath: string;
+  let exportPath: string;
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(transferStorageDBName);
+    localPath = await fs.mkdtemp(path.join(os.tmpdir(), "sqlar-import-"));
+    exportPath = await fs.mkdtemp(path.join(os.tmpdir(), "sqlar-export-"));
+    await fs.mkdir(path.join(localPath, "2024", "tmp"), { recursive: true });
+    await fs.mkdir(path.join(localPath, "empty"));
+    await fs.writeFile(path.join(localPath, "a.txt"), "a");
+    await fs.writeFile(path.join(localPath, "2024", "b.txt"), "b");
+    await fs.writeFile(path.join(localPath, "2024", "tmp", "c.txt"), "c");
+    await fs.chmod(path.join(localPath, "a.txt"), 0o600);
+    await fs.utimes(path.join(localPath, "a.txt"), 1000, 1000);
+  });
+
+  it("should import a local directory keeping modified times and modes", async () => {
+    const { success, files, totalImported, totalFailed } =
+      await storage.importDirectory(localPath, ["uploads"], {
+        filter: (relativePath) => relativePath !== "2024/tmp",
+      });
+
+    expect(success).toBe(true);
+    expect(totalImported).toBe(2);
+    expect(totalFailed).toBe(0);
+    expect(files?.map((f) => f.fileNameWithPath)).toEqual([
+      "/uploads/2024/b.txt",
+      "/uploads/a.txt",
+    ]);
+
+    const { files: storedFiles } = await storage.listFiles(
+      ["uploads"],
+      20,
+      1,
+      "name",
+      "ASC",
+      false,
+    );
+
+    expect(storedFiles[0]).toMatchObject({ name: "a.txt", mtime: 1000 });
+    expect(storedFiles[0].mode & 0o777).toBe(0o600);
+    expect(
+      (await storage.listDirectories(["uploads"])).directories.map(
+        (d) => d.name,
+      ),
+    ).toEqual(["2024", "empty"]);
+  });
+
+  it("should report or overwrite the files that already exist", async () => {
+    await fs.writeFile(path.join(localPath, "a.txt"), "new a");
+
+    const skipped = await storage.importDirectory(localPath, ["uploads"]);
+
+    expect(skipped.totalImported).toBe(1);
+    expect(
+      skipped.files?.find((f) => f.fileNameWithPath === "/uploads/a.txt"),
+    ).toMatchObject({ success: false, error: "FileAlreadyExists" });
+
+    const overwritten = await storage.importDirectory(localPath, ["uploads"], {
+      overwrite: true,
+    });
+
+    expect(overwritten.totalImported).toBe(3);
+    expect(
+      (await storage.retrieveFile(["uploads"], "a.txt")).file?.data.toString(),
+    ).toBe("new a");
+  });
+
+  it("should NOT import a missing local directory", async () => {
+    const { success, error } = await storage.importDirectory(
+      path.join(localPath, "missing"),
+      ["uploads"],
+    );
+
+    expect(success).toBe(false);
+    expect(error).toBe("DirectoryNotFound");
+  });
+
+  it("should export a directory to the local filesystem", async () => {
+    await storage.storeFile(
+      ["uploads", "2024"],
+      "d.txt",
+      Buffer.from("d"),
+      2000,
+    );
+
+    const { success, totalExported, totalFailed } =
+      await storage.exportDirectory(["uploads"], exportPath);
+
+    expect(success).toBe(true);
+    expect(totalExported).toBe(4);
+    expect(totalFailed).toBe(0);
+    expect(
+      await fs.readFile(path.join(exportPath, "2024", "d.txt"), "utf-8"),
+    ).toBe("d");
+    expect(
+      (await fs.stat(path.join(exportPath, "2024", "d.txt"))).mtimeMs,
+    ).toBe(2000 * 1000);
+    expect((await fs.stat(path.join(exportPath, "empty"))).isDirectory()).toBe(
+      true,
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(localPath, { recursive: true, force: true });
+    await fs.rm(exportPath, { recursive: true, force: true });
+    await deleteStorageDB(transferStorageDBName);
+  });
+});
+
+describe("FileStorageManager with archives", () => {
+  const archiveStorageDBName = `test_archive_${Date.now()}.sqlar`;
+  let storage: FileStorageManager;
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(archiveStorageDBName);
+    await storage.storeFile(
+      ["docs", "2024"],
+      "a.txt",
+      Buffer.from("a".repeat(100000)),
+      1000,
+    );
+    await storage.storeFile(["docs"], "b.txt", Buffer.from("b"), 2000);
+    await storage.createDirectory(["docs", "empty"]);
+  });
+
+  it.each(["tar", "zip"] as const)(
+    "should export and import a directory as %s",
+    async (format) => {
+      const archive = storage.exportArchive(["docs"], format);
+      const { success, totalImported, totalFailed } =
+        await storage.importArchive(archive, ["copy", format], format);
+
+      expect(success).toBe(true);
+      expect(totalImported).toBe(2);
+      expect(totalFailed).toBe(0);
+
+      const { file } = await storage.retrieveFile(
+        ["copy", format, "2024"],
+        "a.txt",
+      );
+
+      expect(file?.data).toEqual(Buffer.from("a".repeat(100000)));
+      expect(file?.mtime).toBe(1000);
+      expect(
+        (await storage.listDirectories(["copy", format])).directories.map(
+          (d) => d.name,
+        ),
+      ).toEqual(["2024", "empty"]);
+    },
+  );
+
+  it("should NOT unpack entries outside of the target directory", async () => {
+    const entries = ["../evil.txt", "/etc/evil.txt", "ok/../../evil.txt"].map(
+      (entryPath) => ({
+        path: entryPath,
+        isDirectory: false,
+        mode: 0o644,
+        mtime: 1000,
+        size: 1,
+        content: [Buffer.from("x")],
+      }),
+    );
+
+    const { success, files } = await storage.importArchive(
+      Readable.from(createTarArchive(Readable.from(entries))),
+      ["unsafe"],
+      "tar",
+    );
+
+    expect(success).toBe(true);
+    expect(files.map((f) => f.error)).toEqual([
+      "InvalidPath",
+      "InvalidPath",
+      "InvalidPath",
+    ]);
+    expect((await storage.getTotalFiles()).total).toBe(6);
+  });
+
+  it("should NOT import a malformed archive", async () => {
+    const { success, error } = await storage.importArchive(
+      Readable.from([Buffer.alloc(600, 1)]),
+      ["broken"],
+      "tar",
+    );
+
+    expect(success).toBe(false);
+    expect(error).toBe("InvalidArchive");
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(archiveStorageDBName);
+  });
+});
+
+describe("FileStorageManager errors", () => {
+  const errorsStorageDBName = `test_errors_${Date.now()}.sqlar`;
+  let storage: FileStorageManager;
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(errorsStorageDBName, {
+      throwOnError: true,
+    });
+    await storage.storeFile(["docs"], "a.txt", Buffer.from("a"));
+  });
+
+  it("should narrow a result by its success", async () => {
+    const result = await storage.retrieveFile(["docs"], "a.txt");
+
+    assert(result.success);
+    expect(result.file.data).toEqual(Buffer.from("a"));
+    expect(result.error).toBeUndefined();
+  });
+
+  it("should throw the size of the file with a range that can not be satisfied", async () => {
+    await expect(
+      storage.retrieveFileRange(["docs"], "a.txt", 5),
+    ).rejects.toMatchObject({ code: "RangeNotSatisfiable", sz: 1 });
+  });
+
+  it("should throw a VaultError with the throwOnError option", async () => {
+    await expect(
+      storage.retrieveFile(["docs"], "missing.txt"),
+    ).rejects.toBeInstanceOf(VaultError);
+    await expect(
+      storage.storeFile(["docs"], "a.txt", Buffer.from("b")),
+    ).rejects.toMatchObject({ code: "FileAlreadyExists" });
+    await expect(storage.createDirectory([])).rejects.toThrow("InvalidPath");
+    expect((await storage.retrieveFile(["docs"], "a.txt")).file?.data).toEqual(
+      Buffer.from("a"),
+    );
+  });
+
+  it("should map the errors of SQLite to error codes", async () => {
+    const db = new BetterDatabase(errorsStorageDBName, { readonly: true });
+    db.loadExtension(path.resolve("src", "sqlite-extensions", "sqlar"));
+    const readOnlyStorage = new FileStorageManager(db);
+
+    expect(
+      (await readOnlyStorage.retrieveFile(["docs"], "a.txt")).success,
+    ).toBe(true);
+    await expect(
+      readOnlyStorage.storeFile(["docs"], "b.txt", Buffer.from("b")),
+    ).rejects.toMatchObject({ name: "VaultError", code: "ReadOnlyVault" });
+    db.close();
+
+    const notADatabase = `test_not_a_database_${Date.now()}.sqlar`;
+    await fs.writeFile(notADatabase, "not a database ".repeat(100));
+    await expect(createSQLiteVault(notADatabase)).rejects.toMatchObject({
+      code: "StorageCorrupted",
+    });
+    await deleteStorageDB(notADatabase);
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(errorsStorageDBName);
+  });
+});
+
+describe("FileStorageManager batches and transactions", () => {
+  const batchStorageDBName = `test_batch_${Date.now()}.sqlar`;
+  let storage: FileStorageManager;
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(batchStorageDBName);
+  });
+
+  it("should store many files in a single batch", async () => {
+    const result = await storage.storeFiles(
+      Array.from({ length: 500 }, (_, index) => ({
+        dir: ["bulk"],
+        fileName: `${index}.txt`,
+        file: Buffer.from(`file ${index}`),
+      })),
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.files).toHaveLength(500);
+    expect(result.files[499]).toEqual({
+      success: true,
+      fileName: "499.txt",
+      fileNameWithPath: "/bulk/499.txt",
+    });
+    expect((await storage.retrieveFile(["bulk"], "42.txt")).file?.data).toEqual(
+      Buffer.from("file 42"),
+    );
+  });
+
+  it("should NOT apply a batch with a failed item", async () => {
+    const stored = await storage.storeFiles([
+      { dir: ["batch"], fileName: "new.txt", file: new Blob(["new"]) },
+      { dir: ["bulk"], fileName: "1.txt", file: Buffer.from("again") },
+    ]);
+
+    expect(stored).toEqual({
+      success: false,
+      error: "FileAlreadyExists",
+      files: [
+        { success: false, error: "BatchRolledBack" },
+        { success: false, error: "FileAlreadyExists" },
+      ],
+    });
+    expect((await storage.statFile(["batch"], "new.txt")).success).toBe(false);
+
+    const deleted = await storage.deleteFiles([
+      { dir: ["bulk"], fileName: "2.txt" },
+      { dir: ["bulk"], fileName: "missing.txt" },
+    ]);
+
+    expect(deleted.error).toBe("FileNotFound");
+    expect(deleted.files).toEqual([
+      { success: false, error: "BatchRolledBack" },
+      { success: false, error: "FileNotFound" },
+    ]);
+    expect((await storage.statFile(["bulk"], "2.txt")).success).toBe(true);
+  });
+
+  it("should move and delete files in batches", async () => {
+    const moved = await storage.moveFiles([
+      { dir: ["bulk"], fileName: "1.txt", newDir: ["moved"] },
+      {
+        dir: ["bulk"],
+        fileName: "2.txt",
+        newDir: ["moved"],
+        newFileName: "two.txt",
+      },
+    ]);
+
+    expect(moved.success).toBe(true);
+    expect(moved.files.map((file) => file.newFileNameWithPath)).toEqual([
+      "/moved/1.txt",
+      "/moved/two.txt",
+    ]);
+    expect(
+      (await storage.retrieveFile(["moved"], "two.txt")).file?.data,
+    ).toEqual(Buffer.from("file 2"));
+
+    const deleted = await storage.deleteFiles([
+      { dir: ["moved"], fileName: "1.txt" },
+      { dir: ["moved"], fileName: "two.txt" },
+    ]);
+
+    expect(deleted.success).toBe(true);
+    expect((await storage.listFiles(["moved"])).totalFiles).toBe(0);
+  });
+
+  it("should commit or roll back a transaction", async () => {
+    const committed = await storage.transaction(async (tx) => {
+      await tx.storeFile(["tx"], "a.txt", Buffer.from("a"));
+      await tx.renameFile(["tx"], "a.txt", "b.txt");
+      return "done";
+    });
+
+    expect(committed).toBe("done");
+    expect((await storage.statFile(["tx"], "b.txt")).success).toBe(true);
+
+    await expect(
+      storage.transaction(async (tx) => {
+        await tx.deleteFile(["tx"], "b.txt");
+        await tx.storeFile(["tx"], "c.txt", Buffer.from("c"));
+        await tx.storeFile(["bulk"], "3.txt", Buffer.from("again"));
+      }),
+    ).rejects.toMatchObject({ code: "FileAlreadyExists" });
+    expect((await storage.statFile(["tx"], "b.txt")).success).toBe(true);
+    expect((await storage.statFile(["tx"], "c.txt")).success).toBe(false);
+  });
+
+  it("should only roll back a failed nested transaction", async () => {
+    await storage.transaction(async (tx) => {
+      await tx.storeFile(["nested"], "outer.txt", Buffer.from("outer"));
+      await tx
+        .transaction(async (nested) => {
+          await nested.storeFile(["nested"], "inner.txt", Buffer.from("inner"));
+          await nested.deleteFile(["nested"], "missing.txt");
+        })
+        .catch(() => undefined);
+    });
+
+    expect((await storage.statFile(["nested"], "outer.txt")).success).toBe(
+      true,
+    );
+    expect((await storage.statFile(["nested"], "inner.txt")).success).toBe(
+      false,
+    );
+    expect((await storage.deleteFile(["nested"], "missing.txt")).error).toBe(
+      "FileNotFound",
+    );
+  });
+
+  it("should run the calls made outside of a transaction after it", async () => {
+    let entered = () => {};
+    let release = () => {};
+    const inTransaction = new Promise<void>((resolve) => {
+      entered = resolve;
+    });
+    const transaction = storage.transaction(async (tx) => {
+      await tx.storeFile(["queued"], "inside.txt", Buffer.from("inside"));
+      await pipeline(
+        Readable.from([Buffer.from("stream")]),
+        tx.createWriteStream(["queued"], "stream.txt"),
+      );
+      entered();
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      throw new Error("rollback");
+    });
+
+    await inTransaction;
+    const outside = storage.storeFile(
+      ["queued"],
+      "outside.txt",
+      Buffer.from("outside"),
+    );
+    const listed = storage.listFiles(["queued"]);
+    release();
+
+    await expect(transaction).rejects.toThrow("rollback");
+    expect((await outside).success).toBe(true);
+    expect((await listed).files?.map(({ name }) => name)).not.toContain(
+      "inside.txt",
+    );
+    expect((await storage.statFile(["queued"], "outside.txt")).success).toBe(
+      true,
+    );
+    expect((await storage.statFile(["queued"], "inside.txt")).success).toBe(
+      false,
+    );
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(batchStorageDBName);
+  });
+});
+
+describe("FileStorageManager copies", () => {
+  const copyStorageDBName = `test_copy_${Date.now()}.sqlar`;
+  let storage: FileStorageManager;
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(copyStorageDBName, {
+      deduplicate: true,
+      fullTextSearch: true,
+      maxVersions: 2,
+    });
+    await storage.storeFile(
+      ["docs"],
+      "invoice.txt",
+      Buffer.from("invoice paid"),
+      1700000000,
+      { contentType: "text/plain", tags: { owner: "john" } },
+    );
+    await pipeline(
+      Readable.from([Buffer.from("streamed "), Buffer.from("content")]),
+      storage.createWriteStream(["docs", "streams"], "log.txt"),
+    );
+  });
+
+  it("should copy a file with its metadata", async () => {
+    const result = await storage.copyFile(
+      ["docs"],
+      "invoice.txt",
+      ["backup"],
+      "invoice-copy.txt",
+    );
+
+    expect(result).toEqual({
+      success: true,
+      newFileName: "invoice-copy.txt",
+      newFileNameWithPath: "/backup/invoice-copy.txt",
+    });
+
+    const { file } = await storage.retrieveFile(["backup"], "invoice-copy.txt");
+
+    expect(file).toMatchObject({
+      mtime: 1700000000,
+      contentType: "text/plain",
+      tags: { owner: "john" },
+      data: Buffer.from("invoice paid"),
+    });
+    expect(
+      (await storage.searchContent("paid", ["backup"])).files?.map(
+        (f) => f.fileNameWithPath,
+      ),
+    ).toEqual(["/backup/invoice-copy.txt"]);
+
+    await storage.deleteFile(["docs"], "invoice.txt");
+
+    expect(
+      (await storage.retrieveFile(["backup"], "invoice-copy.txt")).file?.data,
+    ).toEqual(Buffer.from("invoice paid"));
+  });
+
+  it("should NOT copy a missing file or over an existing one", async () => {
+    expect(
+      (await storage.copyFile(["docs"], "missing.txt", ["backup"])).error,
+    ).toBe("FileNotFound");
+    expect(
+      (
+        await storage.copyFile(
+          ["backup"],
+          "invoice-copy.txt",
+          ["docs"],
+          "streams",
+        )
+      ).error,
+    ).toBe("FileAlreadyExists");
+  });
+
+  it("should copy a directory with its subdirectories", async () => {
+    const result = await storage.copyDirectory(["docs"], ["archive", "docs"]);
+
+    expect(result).toEqual({
+      success: true,
+      newDirectoryWithPath: "/archive/docs",
+      totalFiles: 1,
+    });
+    expect(
+      (await storage.retrieveFile(["archive", "docs", "streams"], "log.txt"))
+        .file?.data,
+    ).toEqual(Buffer.from("streamed content"));
+    expect(
+      (await storage.copyDirectory(["docs"], ["archive", "docs"])).error,
+    ).toBe("DirectoryAlreadyExists");
+    expect(
+      (await storage.copyDirectory(["docs"], ["docs", "nested"])).error,
+    ).toBe("InvalidPath");
+    expect((await storage.copyDirectory(["missing"], ["copy"])).error).toBe(
+      "DirectoryNotFound",
+    );
+  });
+
+  it("should overwrite the files of an existing directory", async () => {
+    await storage.updateFileContent(
+      ["archive", "docs", "streams"],
+      "log.txt",
+      Buffer.from("changed"),
+    );
+    await storage.storeFile(["archive", "docs"], "extra.txt", Buffer.from("x"));
+
+    const result = await storage.copyDirectory(["docs"], ["archive", "docs"], {
+      overwrite: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(
+      (await storage.retrieveFile(["archive", "docs", "streams"], "log.txt"))
+        .file?.data,
+    ).toEqual(Buffer.from("streamed content"));
+    expect(
+      (
+        await storage.listFileVersions(
+          ["archive", "docs", "streams"],
+          "log.txt",
+        )
+      ).versions,
+    ).toHaveLength(2);
+    expect(
+      (await storage.statFile(["archive", "docs"], "extra.txt")).success,
+    ).toBe(true);
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(copyStorageDBName);
+  });
+});
+
+describe("FileStorageManager with quotas", () => {
+  const quotaStorageDBName = `test_quota_${Date.now()}.sqlar`;
+  let storage: FileStorageManager;
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(quotaStorageDBName, {
+      quota: { maxFiles: 5 },
+      directoryQuotas: [
+        { dir: ["customers", "acme"], maxSize: 10 },
+        { dir: ["random"], maxStoredSize: 300 },
+      ],
+    });
+  });
+
+  it("should measure the usage of a directory", async () => {
+    await storage.storeFile(
+      ["customers", "acme"],
+      "a.txt",
+      Buffer.from("12345678"),
+    );
+
+    const usage = await storage.getUsage(["customers", "acme"]);
+
+    expect(usage).toMatchObject({ size: 8, totalFiles: 1 });
+    expect(usage.storedSize).toBeGreaterThan(0);
+    expect(await storage.getUsage()).toEqual(usage);
+    expect(await storage.getUsage(["missing"])).toEqual({
+      size: 0,
+      storedSize: 0,
+      totalFiles: 0,
+    });
+  });
+
+  it("should NOT write beyond the quota of a directory", async () => {
+    expect(
+      (
+        await storage.storeFile(
+          ["customers", "acme"],
+          "b.txt",
+          Buffer.from("12345"),
+        )
+      ).error,
+    ).toBe("QuotaExceeded");
+    expect(
+      (
+        await storage.updateFileContent(
+          ["customers", "acme"],
+          "a.txt",
+          Buffer.from("1234567890ab"),
+        )
+      ).error,
+    ).toBe("QuotaExceeded");
+
+    await storage.storeFile(["inbox"], "b.txt", Buffer.from("12345"));
+
+    expect(
+      (
+        await storage.renameFile(["inbox"], "b.txt", "b.txt", [
+          "customers",
+          "acme",
+        ])
+      ).error,
+    ).toBe("QuotaExceeded");
+    await expect(
+      pipeline(
+        Readable.from([Buffer.from("12345")]),
+        storage.createWriteStream(["customers", "acme"], "c.txt"),
+      ),
+    ).rejects.toMatchObject({ code: "QuotaExceeded" });
+    expect(await storage.getUsage(["customers", "acme"])).toMatchObject({
+      size: 8,
+      totalFiles: 1,
+    });
+    expect((await storage.statFile(["inbox"], "b.txt")).success).toBe(true);
+  });
+
+  it("should NOT store more compressed bytes than the quota", async () => {
+    expect(
+      (await storage.storeFile(["random"], "a.bin", randomBytes(200))).success,
+    ).toBe(true);
+    expect(
+      (await storage.storeFile(["random"], "b.bin", randomBytes(200))).error,
+    ).toBe("QuotaExceeded");
+    expect(
+      (await storage.storeFile(["random"], "c.txt", Buffer.alloc(200))).success,
+    ).toBe(true);
+  });
+
+  it("should NOT store more files than the quota of the vault", async () => {
+    const result = await storage.storeFiles([
+      { dir: ["more"], fileName: "a.txt", file: Buffer.from("a") },
+      { dir: ["more"], fileName: "b.txt", file: Buffer.from("b") },
+    ]);
+
+    expect(result.error).toBe("QuotaExceeded");
+    expect(result.files).toEqual([
+      { success: false, error: "BatchRolledBack" },
+      { success: false, error: "QuotaExceeded" },
+    ]);
+    expect((await storage.getUsage()).totalFiles).toBe(4);
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(quotaStorageDBName);
+  });
+});
+
+describe("FileStorageManager with compression", () => {
+  const compressionStorageDBName = `test_compression_${Date.now()}.sqlar`;
+  const text = Buffer.from("compress me ".repeat(100));
+  let storage: FileStorageManager;
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(compressionStorageDBName, {
+      compression: "auto",
+      blockStorage: true,
+    });
+  });
+
+  it("should store compressed formats and poorly compressible contents as is", async () => {
+    await storage.storeFile(["auto"], "notes.txt", text);
+    await storage.storeFile(["auto"], "photo.jpg", text);
+    await storage.storeFile(["auto"], "video", text, undefined, {
+      contentType: "video/mp4",
+    });
+    await storage.storeFile(["auto"], "random.bin", randomBytes(1000));
+
+    const { files } = await storage.listFiles(["auto"]);
+
+    expect(
+      files.map(({ name, compressedSize, compressionRatio }) => ({
+        name,
+        stored: compressedSize < 1000 ? "compressed" : "raw",
+        compressionRatio: compressionRatio < 1 ? "< 1" : compressionRatio,
+      })),
+    ).toEqual([
+      { name: "notes.txt", stored: "compressed", compressionRatio: "< 1" },
+      { name: "photo.jpg", stored: "raw", compressionRatio: 1 },
+      { name: "random.bin", stored: "raw", compressionRatio: 1 },
+      { name: "video", stored: "raw", compressionRatio: 1 },
+    ]);
+    expect(
+      (await storage.retrieveFile(["auto"], "notes.txt")).file,
+    ).toMatchObject({ data: text, sz: text.byteLength });
+    expect(
+      (await storage.retrieveFile(["auto"], "photo.jpg")).file?.data,
+    ).toEqual(text);
+    expect(
+      (await storage.retrieveFileRange(["auto"], "notes.txt", 100, 199)).file
+        ?.data,
+    ).toEqual(text.subarray(100, 200));
+  });
+
+  it("should follow the compression policy given to a single file", async () => {
+    await storage.storeFile(
+      ["policy"],
+      "never.txt",
+      text,
+      undefined,
+      undefined,
+      "never",
+    );
+    await storage.storeFile(
+      ["policy"],
+      "always.jpg",
+      text,
+      undefined,
+      undefined,
+      "always",
+    );
+    await pipeline(
+      Readable.from([text, text]),
+      storage.createWriteStream(["policy"], "stream.txt", {
+        blockSize: 500,
+        compression: "never",
+      }),
+    );
+
+    const never = await storage.statFile(["policy"], "never.txt");
+    const always = await storage.statFile(["policy"], "always.jpg");
+    const stream = await storage.retrieveFile(["policy"], "stream.txt");
+
+    expect(never.file?.compressedSize).toBe(text.byteLength);
+    expect(always.file?.compressionRatio).toBeLessThan(1);
+    expect(stream.file?.compressedSize).toBe(2 * text.byteLength);
+    expect(stream.file?.data).toEqual(Buffer.concat([text, text]));
+  });
+
+  it("should compress with the given zlib level", async () => {
+    const db = new BetterDatabase(":memory:");
+    const words = ["vault", "sqlite", "file", "block", "table", "row"];
+    const lines = Buffer.from(
+      Array.from(
+        { length: 5000 },
+        (_, i) =>
+          `${words[(i * i * 7 + i * 3) % words.length]}${(i * 31) % 97}`,
+      ).join(" "),
+    );
+    const compressedSizes = await Promise.all(
+      [1, 9].map(async (level) => {
+        const leveledStorage = await createSQLiteVault(db, {
+          tableName: `level${level}`,
+          compressionLevel: level,
+        });
+        await leveledStorage.storeFile(["docs"], "lines.txt", lines);
+        const { file } = await leveledStorage.retrieveFile(
+          ["docs"],
+          "lines.txt",
+        );
+
+        expect(file?.data).toEqual(lines);
+        expect(file?.compressedSize).toBe(
+          (sqlarCompress(lines, level) as Buffer).byteLength,
+        );
+        return file?.compressedSize ?? 0;
+      }),
+    );
+
+    expect(compressedSizes[1]).toBeLessThan(compressedSizes[0]);
+    db.close();
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(compressionStorageDBName);
+  });
+});
+
+describe("FileStorageManager with block storage", () => {
+  const blocksStorageDBName = `test_blocks_${Date.now()}.sqlar`;
+  const content = randomBytes(2000);
+  let db: BetterDatabase.Database;
+
+  const storedData = (name: string) =>
+    (
+      db.prepare("SELECT data FROM sqlar WHERE name = ?").get(name) as {
+        data: Buffer | null;
+      }
+    ).data;
+
+  beforeAll(() => {
+    db = new BetterDatabase(blocksStorageDBName);
+  });
+
+  it("should store a stream in a self-contained sqlar row by default", async () => {
+    const storage = await createSQLiteVault(db);
+
+    await pipeline(
+      Readable.from([content]),
+      storage.createWriteStream(["default"], "random.bin", { blockSize: 700 }),
+    );
+
+    expect(storedData("/default/random.bin")).toEqual(content);
+    expect(db.prepare("SELECT count(*) FROM sqlar_blocks").pluck().get()).toBe(
+      0,
+    );
+  });
+
+  it("should store a stream in blocks with the blockStorage option", async () => {
+    const storage = await createSQLiteVault(db, { blockStorage: true });
+
+    await pipeline(
+      Readable.from([content]),
+      storage.createWriteStream(["blocks"], "random.bin", { blockSize: 700 }),
+    );
+
+    expect(storedData("/blocks/random.bin")).toBeNull();
+    expect(db.prepare("SELECT count(*) FROM sqlar_blocks").pluck().get()).toBe(
+      3,
+    );
+    expect(
+      Buffer.concat(
+        await storage
+          .createReadStream(["blocks"], "random.bin", { start: 600, end: 1500 })
+          .toArray(),
+      ),
+    ).toEqual(content.subarray(600, 1501));
+  });
+
+  it("should store a stream in blocks with its own blockStorage option", async () => {
+    const storage = await createSQLiteVault(db);
+
+    await pipeline(
+      Readable.from([content]),
+      storage.createWriteStream(["upload"], "random.bin", {
+        blockStorage: true,
+        blockSize: 700,
+      }),
+    );
+
+    expect(storedData("/upload/random.bin")).toBeNull();
+    expect(
+      (await storage.retrieveFile(["upload"], "random.bin")).file?.data,
+    ).toEqual(content);
+  });
+
+  it("should replace an existing file with the overwrite option", async () => {
+    const storage = await createSQLiteVault(db, { maxVersions: 1 });
+    await storage.storeFile(
+      ["replaced"],
+      "random.bin",
+      Buffer.from("old"),
+      undefined,
+      { contentType: "application/octet-stream", tags: { owner: "john" } },
+    );
+
+    await expect(
+      pipeline(
+        Readable.from([content]),
+        storage.createWriteStream(["replaced"], "random.bin"),
+      ),
+    ).rejects.toThrow("FileAlreadyExists");
+    await pipeline(
+      Readable.from([content]),
+      storage.createWriteStream(["replaced"], "random.bin", {
+        overwrite: true,
+        blockStorage: true,
+        blockSize: 700,
+      }),
+    );
+
+    expect(
+      (await storage.retrieveFile(["replaced"], "random.bin")).file,
+    ).toMatchObject({
+      data: content,
+      sz: content.byteLength,
+      contentType: "application/octet-stream",
+      tags: { owner: "john" },
+    });
+    expect(
+      (await storage.listFileVersions(["replaced"], "random.bin")).versions,
+    ).toMatchObject([{ version: 1, sz: 3 }]);
+    await expect(
+      pipeline(
+        Readable.from([content]),
+        storage.createWriteStream([], "replaced", { overwrite: true }),
+      ),
+    ).rejects.toThrow("FileAlreadyExists");
+  });
+
+  it("should delete the written blocks of a stream that fails", async () => {
+    const storage = await createSQLiteVault(db, { blockStorage: true });
+    const blocks = () =>
+      db
+        .prepare(
+          "SELECT count(*) FROM sqlar_blocks WHERE name LIKE '/failed/%'",
+        )
+        .pluck()
+        .get();
+
+    await expect(
+      pipeline(
+        (async function* () {
+          yield content;
+          yield content;
+          throw new Error("aborted");
+        })(),
+        storage.createWriteStream(["failed"], "random.bin", { blockSize: 700 }),
+      ),
+    ).rejects.toThrow("aborted");
+    expect(blocks()).toBe(0);
+
+    const stream = storage.createWriteStream(["failed"], "destroyed.bin", {
+      blockSize: 700,
+    });
+    stream.write(content);
+    stream.write(content);
+    stream.destroy();
+    await new Promise((resolve) => stream.on("close", resolve));
+    expect(blocks()).toBe(0);
+  });
+
+  afterAll(async () => {
+    db.close();
+    await deleteStorageDB(blocksStorageDBName);
+  });
+});
+
+describe("FileStorageManager with the zlib functions", () => {
+  const zlibStorageDBName = `test_zlib_${Date.now()}.sqlar`;
+  const extensionStorageDBName = `test_extension_${Date.now()}.sqlar`;
+  const text = Buffer.from("compress me ".repeat(100));
+  const random = randomBytes(1000);
+
+  const openWithExtension = (storageDBName: string) => {
+    const db = new BetterDatabase(storageDBName);
+    db.loadExtension(path.resolve("src", "sqlite-extensions", "sqlar"));
+    return db;
+  };
+
+  const storeFiles = async (storage: FileStorageManager) => {
+    await storage.storeFile(["docs"], "notes.txt", text);
+    await storage.storeFile(["docs"], "random.bin", random);
+    await pipeline(
+      Readable.from([text, random, text]),
+      storage.createWriteStream(["docs"], "stream.bin", { blockSize: 700 }),
+    );
+  };
+
+  const expectFiles = async (storage: FileStorageManager) => {
+    expect(
+      (await storage.retrieveFile(["docs"], "notes.txt")).file,
+    ).toMatchObject({ data: text, sz: text.byteLength });
+    expect(
+      (await storage.retrieveFile(["docs"], "random.bin")).file?.data,
+    ).toEqual(random);
+    expect(
+      (await storage.retrieveFile(["docs"], "stream.bin")).file?.data,
+    ).toEqual(Buffer.concat([text, random, text]));
+  };
+
+  it("should compress like the sqlar extension", () => {
+    const db = openWithExtension(":memory:");
+    const compress = db.prepare<[Buffer], { data: Buffer }>(
+      "SELECT sqlar_compress(?) AS data",
+    );
+
+    for (const data of [text, random, Buffer.alloc(0)]) {
+      expect(sqlarCompress(data)).toEqual(compress.get(data)?.data);
+    }
+    db.close();
+  });
+
+  it("should read with the extension a vault written with zlib", async () => {
+    await storeFiles(
+      await createSQLiteVault(zlibStorageDBName, {
+        sqlarFunctions: "zlib",
+        blockStorage: true,
+      }),
+    );
+
+    const db = openWithExtension(zlibStorageDBName);
+    await expectFiles(new FileStorageManager(db));
+    db.close();
+  });
+
+  it("should read with zlib a vault written with the extension", async () => {
+    await storeFiles(
+      await createSQLiteVault(extensionStorageDBName, {
+        sqlarFunctions: "extension",
+        blockStorage: true,
+      }),
+    );
+
+    await expectFiles(
+      await createSQLiteVault(extensionStorageDBName, {
+        sqlarFunctions: "zlib",
+      }),
+    );
+  });
+
+  it("should fall back to zlib when the extension can not be loaded", async () => {
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = "production";
+    try {
+      await expect(
+        createSQLiteVault(zlibStorageDBName, { sqlarFunctions: "extension" }),
+      ).rejects.toMatchObject({ code: "ExtensionNotLoaded" });
+      await expectFiles(await createSQLiteVault(zlibStorageDBName));
+    } finally {
+      if (nodeEnv === undefined) {
+        delete process.env.NODE_ENV;
+      } else {
+        process.env.NODE_ENV = nodeEnv;
+      }
+    }
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(zlibStorageDBName);
+    await deleteStorageDB(extensionStorageDBName);
+  });
+});
+
+describe("FileStorageManager with a shared database", () => {
+  const sharedStorageDBName = `test_shared_${Date.now()}.sqlar`;
+  let db: BetterDatabase.Database;
+
+  beforeAll(() => {
+    db = new BetterDatabase(sharedStorageDBName);
+    db.prepare("CREATE TABLE users(id INTEGER PRIMARY KEY, name TEXT)").run();
+  });
+
+  it("should keep the vaults of different table names apart", async () => {
+    const invoices = await createSQLiteVault(db, {
+      tableName: "invoices",
+      deduplicate: true,
+    });
+    const avatars = await createSQLiteVault(db, {
+      tableName: "avatars",
+      encryptionKey: randomBytes(32),
+    });
+
+    await invoices.storeFile(["2024"], "a.txt", Buffer.from("invoice"));
+    await avatars.storeFile(["2024"], "a.txt", Buffer.from("avatar"));
+    await avatars.storeFile(["2024"], "b.txt", Buffer.from("avatar"));
+
+    expect((await invoices.retrieveFile(["2024"], "a.txt")).file?.data).toEqual(
+      Buffer.from("invoice"),
+    );
+    expect((await avatars.retrieveFile(["2024"], "a.txt")).file?.data).toEqual(
+      Buffer.from("avatar"),
+    );
+    expect((await invoices.getTotalFiles()).total).toBe(1);
+    expect((await avatars.getTotalFiles()).total).toBe(2);
+
+    await invoices.deleteAllFiles();
+    expect((await avatars.getTotalFiles()).total).toBe(2);
+    expect(
+      db
+        .prepare(
+          "SELECT name FROM sqlite_master WHERE type = 'table' AND name IN ('users', 'sqlar', 'invoices', 'avatars_blocks')",
+        )
+        .pluck()
+        .all(),
+    ).toEqual(["users", "invoices", "avatars_blocks"]);
+  });
+
+  it("should NOT roll back the changes of another vault with a transaction", async () => {
+    const orders = await createSQLiteVault(db, { tableName: "orders" });
+    const receipts = await createSQLiteVault(db, { tableName: "receipts" });
+    let entered = () => {};
+    let release = () => {};
+    const inTransaction = new Promise<void>((resolve) => {
+      entered = resolve;
+    });
+    const transaction = orders.transaction(async (tx) => {
+      await tx.storeFile(["2024"], "a.txt", Buffer.from("order"));
+      entered();
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      throw new Error("rollback");
+    });
+
+    await inTransaction;
+    const outside = receipts.storeFile(
+      ["2024"],
+      "a.txt",
+      Buffer.from("receipt"),
+    );
+    release();
+
+    await expect(transaction).rejects.toThrow("rollback");
+    expect((await outside).success).toBe(true);
+    expect((await receipts.retrieveFile(["2024"], "a.txt")).file?.data).toEqual(
+      Buffer.from("receipt"),
+    );
+    expect((await orders.statFile(["2024"], "a.txt")).success).toBe(false);
+  });
+
+  it("should set the pragmas and busy timeout of the database", async () => {
+    await createSQLiteVault(db, {
+      tableName: "settings",
+      busyTimeout: 1234,
+      pragmas: { cache_size: -4000 },
+    });
+
+    expect(db.pragma("busy_timeout", { simple: true })).toBe(1234);
+    expect(db.pragma("cache_size", { simple: true })).toBe(-4000);
+  });
+
+  it("should reject a pragma that is not a name and a number or a keyword", async () => {
+    await expect(
+      createSQLiteVault(db, {
+        tableName: "settings",
+        pragmas: { "cache_size = 0; DROP TABLE users; --": 1 },
+      }),
+    ).rejects.toMatchObject({ code: "InvalidPragma" });
+    await expect(
+      createSQLiteVault(db, {
+        tableName: "settings",
+        pragmas: { cache_size: Infinity },
+      }),
+    ).rejects.toMatchObject({ code: "InvalidPragma" });
+
+    await createSQLiteVault(db, {
+      tableName: "settings",
+      pragmas: { synchronous: "OFF", cache_size: "0; DROP TABLE users" },
+    });
+
+    expect(db.pragma("synchronous", { simple: true })).toBe(0);
+    expect(
+      db
+        .prepare("SELECT name FROM sqlite_master WHERE name = 'users'")
+        .pluck()
+        .get(),
+    ).toBe("users");
+  });
+
+  it("should reject a table name that is not an identifier", async () => {
+    await expect(
+      createSQLiteVault(db, { tableName: "files; DROP TABLE users" }),
+    ).rejects.toMatchObject({ code: "InvalidTableName" });
+    expect(() => new FileStorageManager(db, { tableName: "1files" })).toThrow(
+      "InvalidTableName",
+    );
+  });
+
+  it("should not close a given database when the vault can not be created", async () => {
+    await createSQLiteVault(db, {
+      tableName: "locked",
+      encryptionKey: randomBytes(32),
+    });
+
+    await expect(
+      createSQLiteVault(db, { tableName: "locked" }),
+    ).rejects.toMatchObject({ code: "EncryptionKeyRequired" });
+    expect(db.open).toBe(true);
+  });
+
+  it("should open a vault read-only", async () => {
+    await (
+      await createSQLiteVault(db, { tableName: "public" })
+    ).storeFile(["2024"], "c.txt", Buffer.from("c"));
+    const storage = await createSQLiteVault(sharedStorageDBName, {
+      tableName: "public",
+      readonly: true,
+    });
+
+    expect((await storage.retrieveFile(["2024"], "c.txt")).file?.data).toEqual(
+      Buffer.from("c"),
+    );
+    expect(
+      await storage.storeFile(["2024"], "d.txt", Buffer.from("d")),
+    ).toEqual({ success: false, error: "ReadOnlyVault" });
+  });
+
+  afterAll(async () => {
+    db.close();
+    await deleteStorageDB(sharedStorageDBName);
+  });
+});
+
+describe("FileStorageManager in read-only mode", () => {
+  const readOnlyStorageDBName = `test_readonly_${Date.now()}.sqlar`;
+  let writer: BetterDatabase.Database;
+  let storage: FileStorageManager;
+
+  beforeAll(async () => {
+    // a rollback journal, so a writer holding an exclusive lock blocks the readers
+    writer = new BetterDatabase(readOnlyStorageDBName);
+    await (
+      await createSQLiteVault(writer)
+    ).storeFile(["docs"], "a.txt", Buffer.from("a"));
+    storage = await createSQLiteVault(readOnlyStorageDBName, {
+      readonly: true,
+    });
+  });
+
+  it("should fail the methods that write with ReadOnlyVault", async () => {
+    expect(
+      await storage.storeFile(["docs"], "b.txt", Buffer.from("b")),
+    ).toEqual({ success: false, error: "ReadOnlyVault" });
+    expect(await storage.renameFile(["docs"], "a.txt", "b.txt")).toEqual({
+      success: false,
+      error: "ReadOnlyVault",
+    });
+    expect((await storage.deleteFile(["docs"], "a.txt")).error).toBe(
+      "ReadOnlyVault",
+    );
+    expect((await storage.deleteAllFiles()).error).toBe("ReadOnlyVault");
+    expect(
+      await storage.storeFiles([
+        { dir: ["docs"], fileName: "b.txt", file: Buffer.from("b") },
+      ]),
+    ).toEqual({ success: false, error: "ReadOnlyVault", files: [] });
+    await expect(
+      pipeline(
+        Readable.from([Buffer.from("b")]),
+        storage.createWriteStream(["docs"], "b.txt"),
+      ),
+    ).rejects.toMatchObject({ code: "ReadOnlyVault" });
+
+    expect((await storage.retrieveFile(["docs"], "a.txt")).file?.data).toEqual(
+      Buffer.from("a"),
+    );
+    expect((await storage.getTotalFiles()).total).toBe(1);
+  });
+
+  it("should throw ReadOnlyVault with the throwOnError option", async () => {
+    const throwingStorage = await createSQLiteVault(readOnlyStorageDBName, {
+      readonly: true,
+      throwOnError: true,
+    });
+
+    await expect(throwingStorage.createDirectory(["new"])).rejects.toThrow(
+      "ReadOnlyVault",
+    );
+  });
+
+  it("should reuse the prepared statements", async () => {
+    const db = new BetterDatabase(readOnlyStorageDBName, { readonly: true });
+    db.loadExtension(path.resolve("src", "sqlite-extensions", "sqlar"));
+    const readOnlyStorage = new FileStorageManager(db, { readonly: true });
+    const prepare = vi.spyOn(db, "prepare");
+
+    await readOnlyStorage.retrieveFile(["docs"], "a.txt");
+    const prepared = prepare.mock.calls.length;
+    await readOnlyStorage.retrieveFile(["docs"], "a.txt");
+
+    expect(prepared).toBeGreaterThan(0);
+    expect(prepare.mock.calls.length).toBe(prepared);
+    db.close();
+  });
+
+  it("should retry the reads while the database is locked", async () => {
+    const retryingStorage = await createSQLiteVault(readOnlyStorageDBName, {
+      readonly: true,
+      busyTimeout: 0,
+      busyRetries: 5,
+      busyRetryDelay: 20,
+    });
+    const impatientStorage = await createSQLiteVault(readOnlyStorageDBName, {
+      readonly: true,
+      busyTimeout: 0,
+    });
+
+    writer.prepare("BEGIN EXCLUSIVE").run();
+    await expect(
+      impatientStorage.retrieveFile(["docs"], "a.txt"),
+    ).rejects.toMatchObject({ code: "StorageBusy" });
+    setTimeout(() => writer.prepare("COMMIT").run(), 50);
+
+    expect(
+      (await retryingStorage.retrieveFile(["docs"], "a.txt")).file?.data,
+    ).toEqual(Buffer.from("a"));
+  });
+
+  it("should read a plain sqlar archive", async () => {
+    const plainStorageDBName = `test_plain_${Date.now()}.sqlar`;
+    const db = new BetterDatabase(plainStorageDBName);
+    db.exec(
+      "CREATE TABLE sqlar(name TEXT PRIMARY KEY, mode INT, mtime INT, sz INT, data BLOB)",
+    );
+    const content = Buffer.from("Hello World!".repeat(10));
+    db.prepare("INSERT INTO sqlar VALUES (?, ?, ?, ?, ?)").run(
+      "/docs/a.txt",
+      0o100644,
+      1700000000,
+      content.byteLength,
+      sqlarCompress(content),
+    );
+    db.close();
+
+    const plainStorage = await createSQLiteVault(plainStorageDBName, {
+      readonly: true,
+    });
+
+    expect(
+      (await plainStorage.retrieveFile(["docs"], "a.txt")).file,
+    ).toMatchObject({ data: content, mtime: 1700000000 });
+    expect((await plainStorage.listFiles(["docs"])).totalFiles).toBe(1);
+    expect(await plainStorage.getUsage()).toMatchObject({
+      size: content.byteLength,
+      totalFiles: 1,
+    });
+    expect(
+      (await plainStorage.storeFile(["docs"], "b.txt", content)).error,
+    ).toBe("ReadOnlyVault");
+    await deleteStorageDB(plainStorageDBName);
+  });
+
+  afterAll(async () => {
+    writer.close();
+    await deleteStorageDB(readOnlyStorageDBName);
+  });
+});
+
+describe("FileStorageManager directory prefixes", () => {
+  const prefixesStorageDBName = `test_prefixes_${Date.now()}.sqlar`;
+  let storage: FileStorageManager;
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(prefixesStorageDBName);
+    await storage.storeFile(["Photos"], "a.txt", Buffer.from("a"));
+    await storage.storeFile(["photos"], "b.txt", Buffer.from("b"));
+    await storage.storeFile(["my_docs"], "c.txt", Buffer.from("c"));
+    await storage.storeFile(["myXdocs"], "d.txt", Buffer.from("d"));
+  });
+
+  it("should rename only the directory with the exact name", async () => {
+    expect(
+      (await storage.renameDirectory(["Photos"], ["Pictures"])).success,
+    ).toBe(true);
+    expect(
+      (await storage.renameDirectory(["my_docs"], ["documents"])).success,
+    ).toBe(true);
+
+    expect((await storage.listFiles(["Pictures"])).files).toMatchObject([
+      { name: "a.txt" },
+    ]);
+    expect((await storage.retrieveFile(["photos"], "b.txt")).success).toBe(
+      true,
+    );
+    expect((await storage.retrieveFile(["myXdocs"], "d.txt")).success).toBe(
+      true,
+    );
+
+    expect(
+      (await storage.renameDirectory(["documents"], ["my_docs"])).success,
+    ).toBe(true);
+    expect(
+      (await storage.renameDirectory(["Pictures"], ["Photos"])).success,
+    ).toBe(true);
+  });
+
+  it("should copy only the directory with the exact name", async () => {
+    expect(
+      await storage.copyDirectory(["my_docs"], ["copies", "docs"]),
+    ).toMatchObject({ success: true, totalFiles: 1 });
+    expect(
+      await storage.copyDirectory(["photos"], ["copies", "photos"]),
+    ).toMatchObject({ success: true, totalFiles: 1 });
+
+    expect(
+      (await storage.listFiles(["copies", "docs"])).files?.map(
+        ({ name }) => name,
+      ),
+    ).toEqual(["c.txt"]);
+    expect(
+      (await storage.listFiles(["copies", "photos"])).files?.map(
+        ({ name }) => name,
+      ),
+    ).toEqual(["b.txt"]);
+  });
+
+  it("should list only the directory with the exact name", async () => {
+    const listed = await storage.listFiles(
+      ["my docs"],
+      20,
+      1,
+      "name",
+      "ASC",
+      false,
+    );
+
+    expect(
+      listed.files?.map(({ fileNameWithPath }) => fileNameWithPath),
+    ).toEqual(["/my_docs/c.txt"]);
+    expect(
+      (
+        await storage.listFiles(["photos"], 20, 1, "name", "ASC", false)
+      ).files?.map(({ fileNameWithPath }) => fileNameWithPath),
+    ).toEqual(["/photos/b.txt"]);
+    expect((await storage.statDirectory(["my_docs"])).directory).toMatchObject({
+      totalFiles: 1,
+      sz: 1,
+    });
+    expect((await storage.statDirectory(["MY_DOCS"])).error).toBe(
+      "DirectoryNotFound",
+    );
+    expect(
+      (await storage.listDirectories(["copies"])).directories.map(
+        ({ directoryWithPath }) => directoryWithPath,
+      ),
+    ).toEqual(["/copies/docs", "/copies/photos"]);
+  });
+
+  it("should search only the directory with the exact name", async () => {
+    expect(
+      (await storage.listFiles(["my_docs"])).files?.map(
+        ({ fileNameWithPath }) => fileNameWithPath,
+      ),
+    ).toEqual(["/my_docs/c.txt"]);
+    expect(
+      (await storage.searchFiles(".txt", ["photos"])).files?.map(
+        ({ fileNameWithPath }) => fileNameWithPath,
+      ),
+    ).toEqual(["/photos/b.txt"]);
+    expect(
+      (await storage.queryFiles({ dir: ["my_docs"] })).files?.map(
+        ({ fileNameWithPath }) => fileNameWithPath,
+      ),
+    ).toEqual(["/my_docs/c.txt"]);
+    expect((await storage.queryFiles({ extension: "_xt" })).totalFiles).toBe(0);
+    expect((await storage.queryFiles({ extension: "TXT" })).totalFiles).toBe(6);
+  });
+
+  it("should export only the directory with the exact name", async () => {
+    const exportPath = await fs.mkdtemp(path.join(os.tmpdir(), "prefixes-"));
+    try {
+      expect(
+        await storage.exportDirectory(["my docs"], exportPath),
+      ).toMatchObject({ success: true, totalExported: 1 });
+      expect(await fs.readdir(exportPath)).toEqual(["c.txt"]);
+
+      expect(
+        await storage.importArchive(
+          storage.exportArchive(["photos"], "tar"),
+          ["archived"],
+          "tar",
+        ),
+      ).toMatchObject({ success: true, totalImported: 1 });
+      expect(
+        (await storage.listFiles(["archived"])).files?.map(({ name }) => name),
+      ).toEqual(["b.txt"]);
+    } finally {
+      await fs.rm(exportPath, { recursive: true, force: true });
+    }
+  });
+
+  it("should count only the directory with the exact name against its quota", async () => {
+    const quotaStorage = await createSQLiteVault(prefixesStorageDBName, {
+      directoryQuotas: [{ dir: ["photos"], maxFiles: 1 }],
+    });
+
+    expect(await quotaStorage.getUsage(["photos"])).toMatchObject({
+      totalFiles: 1,
+      size: 1,
+    });
+    expect(await quotaStorage.getUsage(["my_docs"])).toMatchObject({
+      totalFiles: 1,
+    });
+    expect(
+      (await quotaStorage.storeFile(["Photos"], "e.txt", Buffer.from("e")))
+        .success,
+    ).toBe(true);
+  });
+
+  it("should delete only the directory with the exact name", async () => {
+    expect(
+      (await storage.deleteDirectoryFiles(["my_docs"], true)).success,
+    ).toBe(true);
+    expect((await storage.deleteDirectoryFiles(["photos"])).success).toBe(true);
+
+    expect((await storage.retrieveFile(["myXdocs"], "d.txt")).success).toBe(
+      true,
+    );
+    expect((await storage.listFiles(["Photos"])).files).toMatchObject([
+      { name: "a.txt" },
+      { name: "e.txt" },
+    ]);
+    expect(
+      (await storage.listDirectories([])).directories.map(({ name }) => name),
+    ).not.toContain("my_docs");
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(prefixesStorageDBName);
+  });
+});
@@ -1,5 +1,40 @@
-import BetterDatabase, { type Database } from "better-sqlite3";
+import BetterDatabase, { type Database, type Statement } from "better-sqlite3";
+import { AsyncLocalStorage } from "async_hooks";
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  randomUUID,
+} from "crypto";
+import fs, { type Stats } from "fs";
 import path from "path";
+import { Readable, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import { setTimeout as delay } from "timers/promises";
+import { createInflate, deflateSync } from "zlib";
+import {
+  type ArchiveEntry,
+  type ArchiveFormat,
+  createTarArchive,
+  createZipArchive,
+  readTarArchive,
+  readZipArchive,
+} from "./archives.ts";
+import {
+  defineSqlarFunctions,
+  sqlarCompress,
+  type SqlarFunctions,
+} from "./compression.ts";
+import {
+  type VaultBatchResult,
+  VaultError,
+  type VaultErrorCode,
+  type VaultFailure,
+  type VaultResult,
+  type VaultSuccess,
+  toVaultError,
+} from "./errors.ts";
 
 export interface SQLarFile {
   name: string;
@@ -8,441 +43,4494 @@ export interface SQLarFile {
   sz: number;
   data: Buffer;
 }
+
 /**
- * Manages the storage of files in a database using SQLite.
+ * Options of a vault, given to `createSQLiteVault`.
  */
-export class FileStorageManager {
-  private readonly db: Database;
+export interface VaultOptions {
+  /**
+   * Stores each distinct content only once, identified by its SHA-256 hash (Default is false).
+   * Files written through `createWriteStream` are not deduplicated.
+   * A deduplicated file has a NULL `data` in `sqlar`, its content being in `sqlar_contents`, so `sqlite3 -A` extracts
+   * it empty: such a vault is no longer compatible with `sqlite3 -A`.
+   */
+  deduplicate?: boolean;
+  /**
+   * Stores the files written through `createWriteStream` in blocks of `sqlar_blocks` (Default is false),
+   * so large files are written without being loaded into memory. Otherwise the content is written once the stream ends.
+   * A file of more than one block has a NULL `data` in `sqlar`, so `sqlite3 -A` extracts it empty:
+   * such a vault is no longer compatible with `sqlite3 -A`.
+   */
+  blockStorage?: boolean;
+  /**
+   * Indexes the content of text files with FTS5 to be searched by `searchContent` (Default is false).
+   * Files that are not valid UTF-8 text are skipped, as are files written in more than one block by `createWriteStream`.
+   * Once enabled, the vault must always be opened with this option so the index follows every change.
+   */
+  fullTextSearch?: boolean;
+  /**
+   * The number of previous contents kept for each file when it is updated (Default is 0, no versions are kept).
+   * The oldest versions of a file are removed once it has more than this number of versions.
+   */
+  maxVersions?: number;
+  /**
+   * Moves deleted files to a trash bin instead of removing them (Default is false).
+   * Trashed files are restored with `restoreFromTrash` and removed for good with `emptyTrash`.
+   * They stay in `sqlar` under the name `.trash/<id><original path>`, so `sqlite3 -A` lists and extracts them
+   * along with the other files: such a vault is no longer compatible with `sqlite3 -A`.
+   */
+  trash?: boolean;
+  /**
+   * A 32-byte key to encrypt the stored contents with AES-256-GCM, after they are compressed (Default is no encryption).
+   * It can only be set on a vault without files, which must then always be opened with the same key (see `rekey`).
+   * The names, metadata and full-text index of the files are not encrypted.
+   */
+  encryptionKey?: Buffer;
+  /**
+   * Throws a `VaultError` instead of returning `{ success: false, error }` when a method fails (Default is false).
+   */
+  throwOnError?: boolean;
+  /**
+   * The name of the table of files (Default is 'sqlar', the table read by `sqlite3 -A`), the other tables of the vault
+   * are named after it (like 'sqlar_blocks'). Vaults with different table names can share a database.
+   * It must be a plain SQL identifier: letters, digits and underscores, not starting with a digit.
+   */
+  tableName?: string;
+  /**
+   * Opens the database read-only (Default is false), its tables are then neither created nor switched to WAL.
+   * The methods that write to the vault then fail with 'ReadOnlyVault', so several processes can serve its files
+   * while another one writes them. A plain sqlar archive, without the other tables of a vault, can be read this way.
+   */
+  readonly?: boolean;
+  /**
+   * How long to wait for a lock held by another connection before failing with 'StorageBusy', in milliseconds
+   * (Default is the timeout of better-sqlite3, 5 seconds).
+   */
+  busyTimeout?: number;
+  /**
+   * The number of times a read method (like `retrieveFile` or `listFiles`) is run again when it fails with
+   * 'StorageBusy', for the locks that `busyTimeout` does not wait for, like the recovery of the WAL after a checkpoint
+   * (Default is 0, it is not retried).
+   */
+  busyRetries?: number;
+  /**
+   * The delay before the first retry of a read method in milliseconds, doubled at each retry (Default is 50).
+   */
+  busyRetryDelay?: number;
+  /**
+   * The pragmas to set on the database when the vault is created, after `journal_mode = WAL`.
+   * Their names must be plain identifiers and their values numbers or keywords, otherwise it throws 'InvalidPragma'.
+   * Example: { synchronous: "NORMAL", cache_size: -64000 }
+   */
+  pragmas?: Record<string, string | number>;
+  /**
+   * How `sqlar_compress` and `sqlar_uncompress` are provided (Default is 'auto'), see `SqlarFunctions`.
+   */
+  sqlarFunctions?: SqlarFunctions;
+  /**
+   * Whether the contents are compressed (Default is 'always'), see `CompressionPolicy`.
+   * It can be changed for a single file by the methods that store a content.
+   */
+  compression?: CompressionPolicy;
+  /**
+   * The zlib level of the compressed contents, from 1 (fastest) to 9 (smallest) (Default is the level of `sqlar_compress`).
+   * The contents are then compressed by zlib in Node.js, they are still read by `sqlar_uncompress`.
+   */
+  compressionLevel?: number;
+  /**
+   * The limits of the whole vault (Default is no limits), see `VaultQuota`.
+   */
+  quota?: VaultQuota;
+  /**
+   * The limits of the files below some directories, each one is enforced along with the others and `quota`.
+   * Example: [{ dir: ["customers", "acme"], maxSize: 1024 ** 3 }] | Up to 1 GiB of files in '/customers/acme'.
+   */
+  directoryQuotas?: DirectoryQuota[];
+}
+
+/**
+ * How the contents are stored, a content is always stored as is when compressing does not make it smaller:
+ * - 'always' compresses every content with `sqlar_compress`.
+ * - 'never' stores every content as is, saving the CPU time of compressing and decompressing it.
+ * - 'auto' stores the formats that are already compressed (like JPEG, MP4 or ZIP, known by their content type
+ * or extension) as is, and compresses the others only when it saves at least 10% of their size.
+ * A content stored as is keeps `sz == length(data)`, so the archive stays readable by `sqlite3 -A`.
+ */
+export type CompressionPolicy = "always" | "never" | "auto";
+
+/**
+ * Limits of the files stored in a vault or a directory, as measured by `getUsage`.
+ * A write that would exceed any of them fails with an error 'QuotaExceeded' and is rolled back.
+ */
+export interface VaultQuota {
+  /**
+   * The maximum total original size of the files, in bytes.
+   */
+  maxSize?: number;
+  /**
+   * The maximum total stored (compressed) size of the files and their versions, in bytes.
+   */
+  maxStoredSize?: number;
+  /**
+   * The maximum number of files.
+   */
+  maxFiles?: number;
+}
+
+/**
+ * The limits of the files below a directory, given in `directoryQuotas`.
+ */
+export interface DirectoryQuota extends VaultQuota {
+  dir: string[];
+}
+
+/**
+ * Options of `importDirectory`.
+ */
+export interface ImportOptions {
+  /**
+   * Replaces the content of the files that already exist in the vault, keeping the previous one as a version (Default is false).
+   */
+  overwrite?: boolean;
+  /**
+   * Selects the files and directories to import, the contents of a skipped directory are skipped too.
+   * It receives the path relative to the imported directory, with "/" as separator, and the stats of the entry.
+   * Example: (relativePath) => !relativePath.endsWith(".tmp")
+   */
+  filter?: (relativePath: string, stats: Stats) => boolean;
+  /**
+   * The compression policy of the imported files (Default is the `compression` option of the vault).
+   */
+  compression?: CompressionPolicy;
+}
+
+/**
+ * The result of a single file of `importDirectory` or `exportDirectory`.
+ */
+export interface TransferResult {
+  /**
+   * The path of the file on the local filesystem.
+   */
+  path: string;
+  fileNameWithPath: string;
+  success: boolean;
+  error?: VaultErrorCode;
+}
+
+/**
+ * A previous content of a file, kept in `sqlar_versions` when the file is updated.
+ */
+export interface SQLarVersion {
+  name: string;
+  version: number;
+  mtime: number;
+  sz: number;
+  data: Buffer;
+}
+
+/**
+ * Metadata given when a file is stored.
+ */
+export interface FileMetadata {
+  /**
+   * The MIME type of the file, when omitted it is taken from the `type` of a Blob.
+   */
+  contentType?: string;
+  /**
+   * Custom key/value tags, like the original upload name or the owner of the file.
+   */
+  tags?: Record<string, string>;
+}
+
+/**
+ * The location of a file, given to `deleteFiles`.
+ */
+export interface FilePath {
+  dir: string[];
+  fileName: string;
+}
+
+/**
+ * A file given to `storeFiles`, with the parameters of `storeFile`.
+ */
+export interface BatchFile extends FilePath {
+  file: Blob | Buffer;
+  modifiedTime?: number;
+  metadata?: FileMetadata;
+  compression?: CompressionPolicy;
+}
+
+/**
+ * A file given to `moveFiles`, it keeps its name when `newFileName` is omitted.
+ */
+export interface FileMove extends FilePath {
+  newDir: string[];
+  newFileName?: string;
+}
+
+/**
+ * The attributes and metadata of a file, as returned by `statFile` and the listing methods.
+ */
+export interface FileInfo {
+  fileNameWithPath: string;
+  name: string;
+  mode: number;
+  mtime: number;
+  sz: number;
+  /**
+   * The stored size of the content in bytes, after compression (and encryption).
+   */
+  compressedSize: number;
+  /**
+   * The compressed size divided by the original size (1 for an empty file).
+   */
+  compressionRatio: number;
+  contentType: string | null;
+  checksum: string | null;
+  tags: Record<string, string>;
+}
+
+/**
+ * A directory with the total files, total size and latest mtime of everything below it.
+ */
+export interface DirectoryInfo {
+  name: string;
+  mode: number;
+  mtime: number;
+  sz: number;
+  totalFiles: number;
+  directoryWithPath: string;
+}
+
+/**
+ * Filters, pagination and ordering of `queryFiles`, every filter is optional and all of them must match.
+ */
+export interface FileQuery {
+  /**
+   * The directory path, the files of every nested subdirectory are included (Default is all directories).
+   */
+  dir?: string[];
+  /**
+   * A case-sensitive glob pattern matched against the file name, like "report-*.pdf" or "img_????.jpg".
+   */
+  namePattern?: string;
+  /**
+   * The file extension, with or without the leading dot, like "pdf" (case-insensitive).
+   */
+  extension?: string;
+  /**
+   * The MIME type stored in the file metadata, like "application/pdf".
+   */
+  contentType?: string;
+  /**
+   * The minimum and maximum size of the file in bytes (inclusive).
+   */
+  minSize?: number;
+  maxSize?: number;
+  /**
+   * The modified time of the file in seconds must be after/before the given time (exclusive).
+   */
+  modifiedAfter?: number;
+  modifiedBefore?: number;
+  /**
+   * Custom key/value tags that the file metadata must contain.
+   */
+  tags?: Record<string, string>;
+  /**
+   * Only the files whose path sorts after this one, like "/root/b.pdf", to read the next files by name
+   * without counting the skipped pages.
+   */
+  after?: string;
+  filesPerPage?: number;
+  pageNumber?: number;
+  orderBy?: "name" | "mtime" | "sz";
+  order?: "ASC" | "DESC";
+}
+
+/**
+ * Metadata of a file kept in `sqlar_metadata`, `tags` is a JSON object.
+ */
+export interface SQLarMetadata {
+  name: string;
+  contentType: string | null;
+  checksum: string;
+  tags: string;
+}
+
+/**
+ * A content shared by deduplicated files, the file rows in `sqlar` keep `data` as NULL
+ * and reference the content by its hash in `sqlar_refs`.
+ */
+export interface SQLarContent {
+  hash: string;
+  refs: number;
+  sz: number;
+  data: Buffer;
+}
+
+/**
+ * A block of a file written through `createWriteStream`.
+ * The file row in `sqlar` keeps `data` as NULL and its content lives in `sqlar_blocks`.
+ */
+export interface SQLarBlock {
+  name: string;
+  seq: number;
+  offset: number;
+  sz: number;
+  data: Buffer;
+}
+
+/**
+ * An entry of the trash bin, one for each call to a delete method in trash mode.
+ * Its files stay in `sqlar` (and the companion tables) under the name `.trash/<id><original path>`.
+ */
+export interface SQLarTrash {
+  id: number;
+  name: string;
+  isDirectory: 0 | 1;
+  deletedAt: number;
+}
+
+/**
+ * Size (in bytes) of each block stored by `createWriteStream`.
+ */
+const DEFAULT_BLOCK_SIZE = 1024 * 1024;
+
+/**
+ * Size (in bytes) of each chunk pushed by `createReadStream` for files stored in a single row.
+ */
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Bit mask of the file type in `mode` and the file type of a directory (S_IFMT and S_IFDIR).
+ */
+const S_IFMT = 0o170000;
+const S_IFDIR = 0o040000;
+
+/**
+ * SQL conditions to select only files or only directory entries from `sqlar`.
+ */
+const IS_FILE = `(mode & ${S_IFMT}) != ${S_IFDIR}`;
+const IS_DIRECTORY = `(mode & ${S_IFMT}) = ${S_IFDIR}`;
+
+/**
+ * SQL condition of the entries below a directory, given as an SQL expression like a named parameter ("" for the root).
+ * The prefix is compared exactly, as LIKE ignores the case and treats "_" and "%" as wildcards.
+ */
+function isBelow(directory: string, column = "name"): string {
+  return `substr(${column}, 1, length(${directory}) + 1) = ${directory} || '/'`;
+}
+
+/**
+ * The transactions of a database connection, shared by the vaults opened on it since a transaction spans
+ * the whole connection whatever the table.
+ */
+interface ConnectionTransactions {
+  /**
+   * The depth of the `transaction` callback running in the current async context, undefined outside of it.
+   */
+  depth: AsyncLocalStorage<number>;
+  /**
+   * Resolves when the running or last queued transaction ends.
+   */
+  pending: Promise<void>;
+}
+
+const connectionTransactions = new WeakMap<Database, ConnectionTransactions>();
+
+function transactionsOf(db: Database): ConnectionTransactions {
+  let transactions = connectionTransactions.get(db);
+  if (transactions === undefined) {
+    transactions = {
+      depth: new AsyncLocalStorage<number>(),
+      pending: Promise.resolve(),
+    };
+    connectionTransactions.set(db, transactions);
+  }
+  return transactions;
+}
+
+/**
+ * Length (in bytes) of the initialization vector and authentication tag of AES-256-GCM.
+ * An encrypted content is stored as the initialization vector, the ciphertext and then the authentication tag.
+ */
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Maximum number of entries and total size (in bytes) of the files stored in a single transaction by `importDirectory`.
+ * `exportDirectory` reads the entries to write with the same number of entries at once.
+ */
+const TRANSFER_BATCH_SIZE = 100;
+const TRANSFER_BATCH_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Number of rows re-encrypted at once by `rekey`.
+ */
+const REKEY_BATCH_SIZE = 100;
+
+/**
+ * Extensions and content types of the formats that are already compressed, stored as is by the 'auto' compression policy.
+ */
+const COMPRESSED_EXTENSIONS = new Set([
+  "7z",
+  "aac",
+  "avif",
+  "br",
+  "bz2",
+  "docx",
+  "epub",
+  "flac",
+  "gif",
+  "gz",
+  "heic",
+  "jar",
+  "jpeg",
+  "jpg",
+  "m4a",
+  "m4v",
+  "mkv",
+  "mov",
+  "mp3",
+  "mp4",
+  "ogg",
+  "opus",
+  "png",
+  "pptx",
+  "rar",
+  "webm",
+  "webp",
+  "woff2",
+  "xlsx",
+  "xz",
+  "zip",
+  "zst",
+]);
+const COMPRESSED_CONTENT_TYPES =
+  /^(image\/(jpeg|png|gif|webp|avif|heic)|video\/|audio\/(?!wav|x-wav)|font\/woff2|application\/(zip|gzip|x-gzip|x-bzip2|x-xz|x-7z-compressed|vnd\.rar|zstd|epub\+zip|java-archive|vnd\.openxmlformats-officedocument\.))/;
+
+/**
+ * Minimum share of the size that compressing must save for the 'auto' compression policy to keep the compressed content.
+ */
+const AUTO_COMPRESSION_MIN_SAVING = 0.1;
+
+/**
+ * The number of prepared statements kept for reuse by a vault, the least recently used ones are dropped beyond it.
+ */
+const STATEMENT_CACHE_SIZE = 200;
+
+/**
+ * Suffixes of the tables whose `data` column holds a stored (compressed and possibly encrypted) content,
+ * appended to the table name of the vault.
+ */
+const CONTENT_TABLES = ["", "_contents", "_blocks", "_versions"] as const;
+
+/**
+ * Prefix of the names of trashed entries. Stored names always start with "/", so trashed entries are
+ * left out of every listing and search that matches a directory prefix.
+ */
+const TRASH_PREFIX = ".trash/";
+
+/**
+ * Suffixes of the companion tables keyed by the name of a file, appended to the table name of the vault.
+ * Their rows follow the file when it is moved or deleted.
+ */
+const FILE_TABLES = ["_blocks", "_refs", "_metadata", "_versions"] as const;
+
+/**
+ * The default table name of a vault, the one read by `sqlite3 -A`.
+ */
+const DEFAULT_TABLE_NAME = "sqlar";
+
+/**
+ * Table names are written as is in the SQL queries, so they are limited to plain identifiers.
+ */
+const TABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Pragma names are written as is in the SQL queries, so they are limited to plain identifiers.
+ */
+const PRAGMA_NAME_PATTERN = /^\w+$/;
+
+/**
+ * The messages of the errors raised by FTS5 for a malformed query, the other errors of a search are not the query's fault.
+ */
+const FTS5_QUERY_ERROR =
+  /^(fts5: syntax error|no such column|unterminated string|unknown special query)/;
+
+/**
+ * SQL expression of the stored (compressed) content of a row of the `table` of files, either its own `data` or the deduplicated content.
+ * It is NULL when the content is stored in blocks.
+ */
+function storedData(table: string): string {
+  return `COALESCE(${table}.data, (SELECT ${table}_contents.data FROM ${table}_refs JOIN ${table}_contents ON ${table}_contents.hash = ${table}_refs.hash WHERE ${table}_refs.name = ${table}.name))`;
+}
+
+/**
+ * SQL expression of the stored size of a row of the `table` of files, as its own `data`, its deduplicated content or its blocks.
+ */
+function storedSize(table: string): string {
+  return `COALESCE(length(${table}.data), (SELECT length(${table}_contents.data) FROM ${table}_refs JOIN ${table}_contents ON ${table}_contents.hash = ${table}_refs.hash WHERE ${table}_refs.name = ${table}.name), (SELECT sum(length(data)) FROM ${table}_blocks WHERE ${table}_blocks.name = ${table}.name), 0)`;
+}
+
+/**
+ * The table name of a vault given by its options.
+ * @throws A `VaultError` 'InvalidTableName' when it is not a plain SQL identifier.
+ */
+function tableNameOf(options: VaultOptions): string {
+  const tableName = options.tableName ?? DEFAULT_TABLE_NAME;
+  if (!TABLE_NAME_PATTERN.test(tableName)) {
+    throw new VaultError("InvalidTableName");
+  }
+  return tableName;
+}
+
+function encrypt(key: Buffer, data: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  return Buffer.concat([
+    iv,
+    cipher.update(data),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+}
+
+/**
+ * Decrypts a content encrypted by `encrypt`, it throws an error 'DecryptionFailed' when the content
+ * has been tampered with or was encrypted with another key.
+ */
+function decrypt(key: Buffer, data: Buffer): Buffer {
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      key,
+      data.subarray(0, IV_LENGTH),
+    );
+    decipher.setAuthTag(data.subarray(data.byteLength - AUTH_TAG_LENGTH));
+    return Buffer.concat([
+      decipher.update(
+        data.subarray(IV_LENGTH, data.byteLength - AUTH_TAG_LENGTH),
+      ),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new VaultError("DecryptionFailed");
+  }
+}
+
+/**
+ * Passes the chunks of a stream through, its SQLite errors are converted to a `VaultError`.
+ */
+async function* withVaultErrors<T>(
+  source: AsyncIterable<T>,
+): AsyncGenerator<T> {
+  try {
+    yield* source;
+  } catch (error) {
+    throw toVaultError(error);
+  }
+}
+
+/**
+ * Manages the storage of files in a database using SQLite.
+ * A method that fails returns `{ success: false, error }` with its error code, or throws it as a `VaultError`
+ * with the `throwOnError` option. The errors of the database itself, like 'StorageBusy', are always thrown as a `VaultError`.
+ */
+export class FileStorageManager {
+  private readonly db: Database;
+  private readonly options: VaultOptions;
+  /**
+   * The name of the table of files, which prefixes the names of the other tables of the vault.
+   */
+  private readonly table: string;
+  private readonly readonly: boolean;
+  /**
+   * The prepared statements by their SQL, from the least to the most recently used.
+   */
+  private readonly statements = new Map<string, Statement<unknown[]>>();
+  private encryptionKey?: Buffer;
+  private readonly transactions: ConnectionTransactions;
+
+  constructor(db: Database, options: VaultOptions = {}) {
+    this.db = db;
+    this.options = options;
+    this.table = tableNameOf(options);
+    this.readonly = options.readonly === true;
+    this.encryptionKey = options.encryptionKey;
+    this.transactions = transactionsOf(db);
+    if (this.encryptionKey !== undefined) {
+      this.db.function(`${this.table}_encrypt`, (data: Buffer | null) =>
+        data === null || this.encryptionKey === undefined
+          ? data
+          : encrypt(this.encryptionKey, data),
+      );
+      this.db.function(`${this.table}_decrypt`, (data: Buffer | null) =>
+        data === null || this.encryptionKey === undefined
+          ? data
+          : decrypt(this.encryptionKey, data),
+      );
+    }
+  }
+
+  /**
+   * Wraps the SQL expression of a content to be stored with `<table>_encrypt` when the vault is encrypted.
+   */
+  private encrypted(expression: string): string {
+    return this.encryptionKey === undefined
+      ? expression
+      : `${this.table}_encrypt(${expression})`;
+  }
+
+  /**
+   * Wraps the SQL expression of a stored content with `<table>_decrypt` when the vault is encrypted.
+   */
+  private decrypted(expression: string): string {
+    return this.encryptionKey === undefined
+      ? expression
+      : `${this.table}_decrypt(${expression})`;
+  }
+
+  /**
+   * Prepares a statement, or reuses the one prepared by a previous call with the same SQL.
+   */
+  private prepare<
+    P extends unknown[] | NonNullable<unknown> = unknown[],
+    R = unknown,
+  >(source: string): Statement<P, R> {
+    let statement = this.statements.get(source);
+    if (statement === undefined) {
+      statement = this.db.prepare(source);
+      if (this.statements.size >= STATEMENT_CACHE_SIZE) {
+        const [leastRecentlyUsed] = this.statements.keys();
+        this.statements.delete(leastRecentlyUsed);
+      }
+    } else {
+      this.statements.delete(source);
+    }
+    this.statements.set(source, statement);
+    return statement as Statement<P, R>;
+  }
+
+  /**
+   * Waits until no `transaction` is running or queued, so that a call made outside of its callback does not
+   * take part in it. Within the callback, it returns at once.
+   * The statements of a call must run synchronously after it, since a transaction can start at the next await.
+   */
+  private async waitForTransaction() {
+    if (this.transactions.depth.getStore() !== undefined) {
+      return;
+    }
+    let pending: Promise<void>;
+    do {
+      pending = this.transactions.pending;
+      await pending;
+    } while (pending !== this.transactions.pending);
+  }
+
+  /**
+   * Runs a read operation again when it fails with 'StorageBusy', up to `busyRetries` times after a delay
+   * doubled at each attempt. Within `transaction` it is not retried, the whole transaction must be.
+   */
+  private async retryOnBusy<T>(operation: () => Promise<T>): Promise<T> {
+    const retries =
+      this.transactions.depth.getStore() === undefined
+        ? (this.options.busyRetries ?? 0)
+        : 0;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.waitForTransaction();
+        return await operation();
+      } catch (error) {
+        if (
+          attempt >= retries ||
+          !(error instanceof VaultError && error.code === "StorageBusy")
+        ) {
+          throw error;
+        }
+      }
+      await delay((this.options.busyRetryDelay ?? 50) * 2 ** attempt);
+    }
+  }
+
+  private isDecryptionError(error: unknown): boolean {
+    return error instanceof VaultError && error.code === "DecryptionFailed";
+  }
+
+  private isQuotaError(error: unknown): boolean {
+    return error instanceof VaultError && error.code === "QuotaExceeded";
+  }
+
+  /**
+   * Measures the files below a directory ("/" for the whole vault), trashed files are not counted.
+   * The stored size adds up the compressed (and encrypted) contents of the files, their blocks,
+   * the deduplicated contents they reference (each one once) and their versions.
+   */
+  private usage(directoryWithPath: string) {
+    const dir = directoryWithPath === "/" ? "" : directoryWithPath;
+    const below = isBelow(":dir");
+    return this.prepare<{ dir: string }>(
+      `SELECT
+        (SELECT count(*) FROM ${this.table} WHERE ${below} AND ${IS_FILE}) as totalFiles,
+        (SELECT coalesce(sum(sz), 0) FROM ${this.table} WHERE ${below} AND ${IS_FILE}) as size,
+        (SELECT coalesce(sum(length(data)), 0) FROM ${this.table} WHERE ${below} AND ${IS_FILE})
+        + (SELECT coalesce(sum(length(data)), 0) FROM ${this.table}_blocks WHERE ${below})
+        + (SELECT coalesce(sum(length(data)), 0) FROM ${this.table}_contents WHERE hash IN (SELECT hash FROM ${this.table}_refs WHERE ${below}))
+        + (SELECT coalesce(sum(length(data)), 0) FROM ${this.table}_versions WHERE ${below}) as storedSize`,
+    ).get({ dir }) as {
+      totalFiles: number;
+      size: number;
+      storedSize: number;
+    };
+  }
+
+  /**
+   * Checks the quotas of the vault and of the directories that contain (or are below) an entry that was written,
+   * it must run within the transaction of the write.
+   * @throws A `VaultError` 'QuotaExceeded' when the usage exceeds a quota, which rolls back the transaction.
+   */
+  private checkQuotas(entryPath: string) {
+    const quotas: DirectoryQuota[] = [
+      ...(this.options.quota === undefined
+        ? []
+        : [{ ...this.options.quota, dir: [] }]),
+      ...(this.options.directoryQuotas ?? []),
+    ];
+    quotas.forEach(({ dir, maxSize, maxStoredSize, maxFiles }) => {
+      const sanitizedPath = this.sanitizePath(dir).join("/");
+      const prefix = sanitizedPath === "" ? "/" : `/${sanitizedPath}/`;
+      if (
+        !`${entryPath}/`.startsWith(prefix) &&
+        !prefix.startsWith(`${entryPath}/`)
+      ) {
+        return;
+      }
+      const usage = this.usage(`/${sanitizedPath}`);
+      if (
+        usage.size > (maxSize ?? Infinity) ||
+        usage.storedSize > (maxStoredSize ?? Infinity) ||
+        usage.totalFiles > (maxFiles ?? Infinity)
+      ) {
+        throw new VaultError("QuotaExceeded");
+      }
+    });
+  }
+
+  /**
+   * Returns the failed result of a method, or throws it as a `VaultError` with the `throwOnError` option
+   * and within the callback of `transaction`. The size of a file is kept in both as `sz`.
+   */
+  private fail<E extends VaultErrorCode>(error: E): VaultFailure<E>;
+  private fail<E extends VaultErrorCode>(
+    error: E,
+    sz: number,
+  ): VaultFailure<E, { sz: number }>;
+  private fail<E extends VaultErrorCode>(
+    error: E,
+    sz?: number,
+  ): VaultFailure<E, { sz?: number }> {
+    if (
+      this.options.throwOnError === true ||
+      this.transactions.depth.getStore() !== undefined
+    ) {
+      throw new VaultError(error, undefined, sz);
+    }
+    return sz === undefined
+      ? { success: false, error }
+      : { success: false, error, sz };
+  }
+
+  private fileExists(filePath: string): boolean {
+    const file = this.prepare<SQLarFile["name"]>(
+      `SELECT name FROM ${this.table} WHERE name = ? AND ${IS_FILE}`,
+    ).get(filePath) as SQLarFile | undefined;
+    return file !== undefined;
+  }
+
+  private entryExists(entryPath: string): boolean {
+    const entry = this.prepare<SQLarFile["name"]>(
+      `SELECT name FROM ${this.table} WHERE name = ?`,
+    ).get(entryPath) as SQLarFile | undefined;
+    return entry !== undefined;
+  }
+
+  private createDirectoryEntries(
+    directoryPath: string,
+    modifiedTime: number = Math.round(Date.now() / 1000),
+  ) {
+    const insertDirectory = this.prepare<
+      [SQLarFile["name"], SQLarFile["mode"], SQLarFile["mtime"]]
+    >(
+      `INSERT OR IGNORE INTO ${this.table}(name,mode,mtime,sz,data) VALUES (?, ?, ?, 0, NULL)`,
+    );
+    const segments = directoryPath.split("/").filter((dir) => dir !== "");
+    let created = 0;
+    segments.forEach((_segment, index) => {
+      const { changes } = insertDirectory.run(
+        `/${segments.slice(0, index + 1).join("/")}`,
+        S_IFDIR | 0o755,
+        modifiedTime,
+      );
+      created += changes;
+    });
+    return created;
+  }
+
+  private parentDirectory(entryPath: string): string {
+    return entryPath.slice(0, entryPath.lastIndexOf("/"));
+  }
+
+  private listChildren(
+    dir: string[],
+    skip: number,
+    entriesPerPage: number,
+    orderBy: "name" | "mtime" | "sz",
+    order: "ASC" | "DESC",
+  ) {
+    const sanitizedPath = this.sanitizePath(dir).join("/");
+    const directory = sanitizedPath === "" ? "" : `/${sanitizedPath}`;
+
+    const children = `WITH children AS (
+      SELECT
+        CASE WHEN instr(rest, '/') > 0 THEN substr(rest, 1, instr(rest, '/') - 1) ELSE rest END as name,
+        instr(rest, '/') > 0 OR ${IS_DIRECTORY} as isDirectory,
+        ${IS_FILE} as isFile,
+        mode,
+        mtime,
+        sz
+      FROM (SELECT substr(name, length(:dir) + 2) as rest, mode, mtime, sz FROM ${this.table} WHERE ${isBelow(":dir")})
+    ), entries AS (
+      SELECT
+        name,
+        isDirectory,
+        max(mode) as mode,
+        max(mtime) as mtime,
+        sum(CASE WHEN isFile THEN sz ELSE 0 END) as sz,
+        sum(isFile) as totalFiles
+      FROM children GROUP BY name, isDirectory
+    )`;
+    const countEntries = this.prepare<{ dir: string }>(
+      `${children} SELECT isDirectory, count(*) as total FROM entries GROUP BY isDirectory`,
+    );
+    const entries = this.prepare<{
+      dir: string;
+      skip: number;
+      entriesPerPage: number;
+    }>(
+      `${children} SELECT * FROM entries ORDER BY isDirectory DESC, ${orderBy} ${order} LIMIT :skip, :entriesPerPage`,
+    );
+
+    return this.db.transaction(() => {
+      const params = { dir: directory };
+      const totals = countEntries.all(params) as Array<{
+        isDirectory: 0 | 1;
+        total: number;
+      }>;
+      const entriesList = entries.all({
+        ...params,
+        skip,
+        entriesPerPage,
+      }) as Array<
+        Omit<SQLarFile, "data"> & { isDirectory: 0 | 1; totalFiles: number }
+      >;
+      return {
+        totalFiles: totals.find((t) => t.isDirectory === 0)?.total ?? 0,
+        totalDirectories: totals.find((t) => t.isDirectory === 1)?.total ?? 0,
+        files: this.withMetadata(
+          entriesList
+            .filter((e) => e.isDirectory === 0)
+            .map((e) => ({
+              name: e.name,
+              mode: e.mode,
+              mtime: e.mtime,
+              sz: e.sz,
+              fileNameWithPath: `${directory}/${e.name}`,
+            })),
+        ),
+        directories: entriesList
+          .filter((e) => e.isDirectory === 1)
+          .map((e) => ({
+            name: e.name,
+            mode: S_IFDIR | 0o755,
+            mtime: e.mtime,
+            sz: e.sz,
+            totalFiles: e.totalFiles,
+            directoryWithPath: `${directory}/${e.name}`,
+          })),
+      };
+    })();
+  }
+
+  private sanitizePath(filePath: string[]): string[] {
+    return filePath
+      .filter((dir) => dir.trim() !== "")
+      .map((dir) => dir.trim().replace(/\/|\s|\\/g, "_"));
+  }
+
+  private createFileNameWithPath(filePath: string[], fileName: string): string {
+    const sanitizedPath = this.sanitizePath(filePath).join("/");
+    if (sanitizedPath === "") {
+      return `/${fileName}`;
+    }
+    return `/${sanitizedPath}/${fileName}`;
+  }
+
+  private async blobToBuffer(blob: Blob): Promise<Buffer> {
+    return Buffer.from(await blob.arrayBuffer());
+  }
+
+  /**
+   * Reads the content of a Blob or Buffer to be stored, the content type of a Blob is used when the metadata has none.
+   */
+  private async readFile(
+    file: Blob | Buffer,
+    metadata: FileMetadata,
+  ): Promise<{ content: Buffer; metadata: FileMetadata }> {
+    if (!(file instanceof Blob)) {
+      return { content: file, metadata };
+    }
+    return {
+      content: await this.blobToBuffer(file),
+      metadata: {
+        ...metadata,
+        contentType:
+          metadata.contentType ?? (file.type !== "" ? file.type : undefined),
+      },
+    };
+  }
+
+  /**
+   * Returns the SQL expression of a content to be stored (its single parameter) and the value of that parameter,
+   * following the compression policy of the vault or the one given.
+   */
+  private storedContent(
+    content: Buffer,
+    fileNameWithPath: string,
+    contentType: string | null | undefined,
+    compression: CompressionPolicy = this.options.compression ?? "always",
+    level = this.options.compressionLevel,
+  ): { expression: string; data: Buffer } {
+    if (compression === "always") {
+      return level === undefined
+        ? { expression: this.encrypted("sqlar_compress(?)"), data: content }
+        : {
+            expression: this.encrypted("?"),
+            data: sqlarCompress(content, level) as Buffer,
+          };
+    }
+    const extension = fileNameWithPath.split(".").at(-1)?.toLowerCase() ?? "";
+    if (
+      compression === "never" ||
+      COMPRESSED_EXTENSIONS.has(extension) ||
+      COMPRESSED_CONTENT_TYPES.test(contentType ?? "")
+    ) {
+      return { expression: this.encrypted("?"), data: content };
+    }
+    const compressed = deflateSync(content, { level });
+    return {
+      expression: this.encrypted("?"),
+      data:
+        compressed.byteLength <=
+        content.byteLength * (1 - AUTO_COMPRESSION_MIN_SAVING)
+          ? compressed
+          : content,
+    };
+  }
+
+  private readBlocks(fileNameWithPath: string): Buffer {
+    const blocks = this.prepare<SQLarBlock["name"]>(
+      `SELECT sqlar_uncompress(${this.decrypted("data")},sz) as data FROM ${this.table}_blocks WHERE name = ? ORDER BY seq`,
+    ).all(fileNameWithPath) as Array<Pick<SQLarBlock, "data">>;
+    return Buffer.concat(blocks.map((block) => block.data));
+  }
+
+  private deleteBlocks(fileNameWithPath: string) {
+    this.prepare<SQLarBlock["name"]>(
+      `DELETE FROM ${this.table}_blocks WHERE name = ?`,
+    ).run(fileNameWithPath);
+  }
+
+  private checksum(content: Buffer): string {
+    return createHash("sha256").update(content).digest("hex");
+  }
+
+  private storeMetadata(
+    fileNameWithPath: string,
+    checksum: string,
+    metadata: FileMetadata,
+  ) {
+    this.prepare<
+      [
+        SQLarMetadata["name"],
+        SQLarMetadata["contentType"],
+        SQLarMetadata["checksum"],
+        SQLarMetadata["tags"],
+      ]
+    >(
+      `INSERT OR REPLACE INTO ${this.table}_metadata(name,contentType,checksum,tags) VALUES (?, ?, ?, ?)`,
+    ).run(
+      fileNameWithPath,
+      metadata.contentType ?? null,
+      checksum,
+      JSON.stringify(metadata.tags ?? {}),
+    );
+  }
+
+  /**
+   * Stores the metadata of a replaced content, the content type and tags are kept when they are not given.
+   */
+  private replaceMetadata(
+    fileNameWithPath: string,
+    checksum: string,
+    metadata: FileMetadata,
+  ) {
+    const params = {
+      name: fileNameWithPath,
+      contentType: metadata.contentType ?? null,
+      checksum,
+      tags: metadata.tags === undefined ? null : JSON.stringify(metadata.tags),
+    };
+    this.prepare<typeof params>(
+      `INSERT INTO ${this.table}_metadata(name,contentType,checksum,tags) VALUES (:name, :contentType, :checksum, COALESCE(:tags, '{}'))
+        ON CONFLICT(name) DO UPDATE SET checksum = excluded.checksum, contentType = COALESCE(excluded.contentType, contentType), tags = COALESCE(:tags, tags)`,
+    ).run(params);
+  }
+
+  private withMetadata<T extends { fileNameWithPath: string; sz: number }>(
+    files: T[],
+  ) {
+    const names = JSON.stringify(files.map((f) => f.fileNameWithPath));
+    const metadata = this.prepare<string>(
+      `SELECT * FROM ${this.table}_metadata WHERE name IN (SELECT value FROM json_each(?))`,
+    ).all(names) as SQLarMetadata[];
+    const storedSizes = this.prepare<string>(
+      `SELECT name, ${storedSize(this.table)} as storedSize FROM ${this.table} WHERE name IN (SELECT value FROM json_each(?))`,
+    ).all(names) as Array<{ name: string; storedSize: number }>;
+    const metadataByName = new Map(metadata.map((m) => [m.name, m]));
+    const storedSizeByName = new Map(
+      storedSizes.map((s) => [s.name, s.storedSize]),
+    );
+    return files.map((f) => {
+      const fileMetadata = metadataByName.get(f.fileNameWithPath);
+      const compressedSize = storedSizeByName.get(f.fileNameWithPath) ?? 0;
+      return {
+        ...f,
+        compressedSize,
+        compressionRatio: f.sz === 0 ? 1 : compressedSize / f.sz,
+        contentType: fileMetadata?.contentType ?? null,
+        checksum: fileMetadata?.checksum ?? null,
+        tags: JSON.parse(fileMetadata?.tags ?? "{}") as Record<string, string>,
+      };
+    });
+  }
+
+  private textContent(content: Buffer): string | undefined {
+    if (content.subarray(0, 8000).includes(0)) {
+      return undefined;
+    }
+    try {
+      return new TextDecoder("utf-8", { fatal: true }).decode(content);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private indexContent(fileNameWithPath: string, content: Buffer) {
+    if (this.options.fullTextSearch !== true) {
+      return;
+    }
+    this.prepare<SQLarFile["name"]>(
+      `DELETE FROM ${this.table}_fts WHERE name = ?`,
+    ).run(fileNameWithPath);
+    const text = this.textContent(content);
+    if (text === undefined) {
+      return;
+    }
+    this.prepare<[SQLarFile["name"], string]>(
+      `INSERT INTO ${this.table}_fts(name,content) VALUES (?, ?)`,
+    ).run(fileNameWithPath, text);
+  }
+
+  private updateIndex(sql: string, ...params: unknown[]) {
+    if (this.options.fullTextSearch !== true) {
+      return;
+    }
+    this.prepare(sql).run(...params);
+  }
+
+  private archiveVersion(fileNameWithPath: string) {
+    const maxVersions = this.options.maxVersions ?? 0;
+    if (maxVersions <= 0) {
+      return;
+    }
+    const { version } = this.prepare<SQLarVersion["name"]>(
+      `SELECT coalesce(max(version), 0) + 1 as version FROM ${this.table}_versions WHERE name = ?`,
+    ).get(fileNameWithPath) as Pick<SQLarVersion, "version">;
+    const { changes } = this.prepare<
+      [SQLarVersion["version"], SQLarVersion["name"]]
+    >(
+      `INSERT INTO ${this.table}_versions(name,version,mtime,sz,data)
+        SELECT name, ?, mtime, sz, ${storedData(this.table)} FROM ${this.table} WHERE name = ? AND ${storedData(this.table)} IS NOT NULL`,
+    ).run(version, fileNameWithPath);
+    if (changes === 0) {
+      this.prepare<
+        [SQLarVersion["version"], SQLarVersion["data"], SQLarVersion["name"]]
+      >(
+        `INSERT INTO ${this.table}_versions(name,version,mtime,sz,data) SELECT name, ?, mtime, sz, ${this.encrypted("sqlar_compress(?)")} FROM ${this.table} WHERE name = ?`,
+      ).run(version, this.readBlocks(fileNameWithPath), fileNameWithPath);
+    }
+    this.prepare<[SQLarVersion["name"], SQLarVersion["version"]]>(
+      `DELETE FROM ${this.table}_versions WHERE name = ? AND version <= ?`,
+    ).run(fileNameWithPath, version - maxVersions);
+  }
+
+  private storeContent(
+    fileNameWithPath: string,
+    content: Buffer,
+    hash: string,
+    contentType: string | null | undefined,
+    compression?: CompressionPolicy,
+  ) {
+    const { changes } = this.prepare<SQLarContent["hash"]>(
+      `UPDATE ${this.table}_contents SET refs = refs + 1 WHERE hash = ?`,
+    ).run(hash);
+    if (changes === 0) {
+      const { expression, data } = this.storedContent(
+        content,
+        fileNameWithPath,
+        contentType,
+        compression,
+      );
+      this.prepare<
+        [SQLarContent["hash"], SQLarContent["sz"], SQLarContent["data"]]
+      >(
+        `INSERT INTO ${this.table}_contents(hash,refs,sz,data) VALUES (?, 1, ?, ${expression})`,
+      ).run(hash, content.byteLength, data);
+    }
+    this.prepare<[SQLarFile["name"], SQLarContent["hash"]]>(
+      `INSERT INTO ${this.table}_refs(name,hash) VALUES (?, ?)`,
+    ).run(fileNameWithPath, hash);
+  }
+
+  /**
+   * Releases the contents referenced by the files matching `condition`, which reads the name from `:name`.
+   */
+  private releaseContents(condition: string, name: string) {
+    this.prepare<{ name: SQLarFile["name"] }>(
+      `UPDATE ${this.table}_contents SET refs = refs - (SELECT count(*) FROM ${this.table}_refs WHERE ${this.table}_refs.hash = ${this.table}_contents.hash AND ${condition})
+        WHERE hash IN (SELECT hash FROM ${this.table}_refs WHERE ${condition})`,
+    ).run({ name });
+    this.prepare<{ name: SQLarFile["name"] }>(
+      `DELETE FROM ${this.table}_refs WHERE ${condition}`,
+    ).run({ name });
+    this.prepare(`DELETE FROM ${this.table}_contents WHERE refs <= 0`).run();
+  }
+
+  /**
+   * Renames the entry `from` and every entry below it so they start with `to`, along with their companion rows.
+   * When `filesOnly` is true, the directory entries are left in place.
+   */
+  private moveEntries(from: string, to: string, filesOnly = false) {
+    const params = { from, to };
+    const rename = `SET name = :to || substr(name, length(:from) + 1) WHERE (name = :from OR ${isBelow(":from")})`;
+    this.prepare<typeof params>(
+      `UPDATE ${this.table} ${rename}${filesOnly ? ` AND ${IS_FILE}` : ""}`,
+    ).run(params);
+    FILE_TABLES.forEach((suffix) => {
+      this.prepare<typeof params>(
+        `UPDATE ${this.table}${suffix} ${rename}`,
+      ).run(params);
+    });
+    this.updateIndex(`UPDATE ${this.table}_fts ${rename}`, params);
+  }
+
+  /**
+   * Copies the entry `from` and every entry below it so they start with `to`, along with their stored content,
+   * metadata and index rows. The content is copied as stored, without being decompressed.
+   * It must run within a transaction, after removing the files that exist at the new names.
+   * @returns The number of copied files.
+   * @throws A `VaultError` 'QuotaExceeded' when the copies exceed a quota.
+   */
+  private copyEntries(from: string, to: string) {
+    const params = { from, to };
+    const source = `(name = :from OR ${isBelow(":from")})`;
+    const copiedName = ":to || substr(name, length(:from) + 1)";
+    this.prepare<typeof params>(
+      `INSERT OR IGNORE INTO ${this.table}(name,mode,mtime,sz,data) SELECT ${copiedName}, mode, mtime, sz, data FROM ${this.table} WHERE ${source}`,
+    ).run(params);
+    this.prepare<typeof params>(
+      `INSERT INTO ${this.table}_blocks(name,seq,offset,sz,data) SELECT ${copiedName}, seq, offset, sz, data FROM ${this.table}_blocks WHERE ${source}`,
+    ).run(params);
+    this.prepare<typeof params>(
+      `UPDATE ${this.table}_contents SET refs = refs + (SELECT count(*) FROM ${this.table}_refs WHERE ${this.table}_refs.hash = ${this.table}_contents.hash AND ${source})
+        WHERE hash IN (SELECT hash FROM ${this.table}_refs WHERE ${source})`,
+    ).run(params);
+    this.prepare<typeof params>(
+      `INSERT INTO ${this.table}_refs(name,hash) SELECT ${copiedName}, hash FROM ${this.table}_refs WHERE ${source}`,
+    ).run(params);
+    this.prepare<typeof params>(
+      `INSERT INTO ${this.table}_metadata(name,contentType,checksum,tags) SELECT ${copiedName}, contentType, checksum, tags FROM ${this.table}_metadata WHERE ${source}`,
+    ).run(params);
+    this.updateIndex(
+      `INSERT INTO ${this.table}_fts(name,content) SELECT ${copiedName}, content FROM ${this.table}_fts WHERE ${source}`,
+      params,
+    );
+    const { total } = this.prepare<typeof params>(
+      `SELECT count(*) as total FROM ${this.table} WHERE ${source} AND ${IS_FILE}`,
+    ).get(params) as { total: number };
+    this.checkQuotas(to);
+    return total;
+  }
+
+  private trashedName(trash: Pick<SQLarTrash, "id" | "name">): string {
+    return `${TRASH_PREFIX}${trash.id}${trash.name === "/" ? "" : trash.name}`;
+  }
+
+  private addToTrash(name: string, isDirectory: boolean, filesOnly = false) {
+    const { lastInsertRowid } = this.prepare<
+      [SQLarTrash["name"], SQLarTrash["isDirectory"], SQLarTrash["deletedAt"]]
+    >(
+      `INSERT INTO ${this.table}_trash(name,isDirectory,deletedAt) VALUES (?, ?, ?)`,
+    ).run(name, isDirectory ? 1 : 0, Math.round(Date.now() / 1000));
+    this.moveEntries(
+      name === "/" ? "" : name,
+      this.trashedName({ id: Number(lastInsertRowid), name }),
+      filesOnly,
+    );
+  }
+
+  private purgeTrash(id: SQLarTrash["id"]) {
+    const params = { dir: `${TRASH_PREFIX}${id}` };
+    this.releaseContents(isBelow(":name"), params.dir);
+    FILE_TABLES.filter((suffix) => suffix !== "_refs").forEach((suffix) => {
+      this.prepare<typeof params>(
+        `DELETE FROM ${this.table}${suffix} WHERE ${isBelow(":dir")}`,
+      ).run(params);
+    });
+    this.updateIndex(
+      `DELETE FROM ${this.table}_fts WHERE ${isBelow(":dir")}`,
+      params,
+    );
+    this.prepare<typeof params>(
+      `DELETE FROM ${this.table} WHERE ${isBelow(":dir")}`,
+    ).run(params);
+    this.prepare<SQLarTrash["id"]>(
+      `DELETE FROM ${this.table}_trash WHERE id = ?`,
+    ).run(id);
+  }
+
+  /**
+   * Inserts a new file row with its companion rows, it must run within a transaction.
+   * @throws A `VaultError` 'QuotaExceeded' when the file exceeds a quota.
+   */
+  private insertFile(
+    fileNameWithPath: string,
+    content: Buffer,
+    modifiedTime: number,
+    metadata: FileMetadata,
+    mode: number = 0o644,
+    compression?: CompressionPolicy,
+  ) {
+    const checksum = this.checksum(content);
+    this.createDirectoryEntries(this.parentDirectory(fileNameWithPath));
+    const deduplicate = this.options.deduplicate === true;
+    if (deduplicate) {
+      this.storeContent(
+        fileNameWithPath,
+        content,
+        checksum,
+        metadata.contentType,
+        compression,
+      );
+    }
+    const { expression, data } = deduplicate
+      ? { expression: "?", data: null }
+      : this.storedContent(
+          content,
+          fileNameWithPath,
+          metadata.contentType,
+          compression,
+        );
+    this.prepare<
+      [
+        SQLarFile["name"],
+        SQLarFile["mode"],
+        SQLarFile["mtime"],
+        SQLarFile["sz"],
+        SQLarFile["data"] | null,
+      ]
+    >(
+      `INSERT INTO ${this.table}(name,mode,mtime,sz,data) VALUES (?, ?, ?, ?, ${expression})`,
+    ).run(fileNameWithPath, mode, modifiedTime, content.byteLength, data);
+    this.storeMetadata(fileNameWithPath, checksum, metadata);
+    this.indexContent(fileNameWithPath, content);
+    this.checkQuotas(fileNameWithPath);
+  }
+
+  /**
+   * Replaces the content of an existing file, keeping the previous one as a version.
+   * It must run within a transaction.
+   * @throws A `VaultError` 'QuotaExceeded' when the new content exceeds a quota.
+   */
+  private replaceContent(
+    fileNameWithPath: string,
+    content: Buffer,
+    modifiedTime: number,
+    contentType: string | null,
+    compression?: CompressionPolicy,
+  ) {
+    const checksum = this.checksum(content);
+    this.archiveVersion(fileNameWithPath);
+    this.deleteBlocks(fileNameWithPath);
+    this.releaseContents("name = :name", fileNameWithPath);
+    const deduplicate = this.options.deduplicate === true;
+    if (deduplicate) {
+      this.storeContent(
+        fileNameWithPath,
+        content,
+        checksum,
+        contentType,
+        compression,
+      );
+    }
+    const { expression, data } = deduplicate
+      ? { expression: "?", data: null }
+      : this.storedContent(content, fileNameWithPath, contentType, compression);
+    this.prepare<
+      [
+        SQLarFile["mtime"],
+        SQLarFile["sz"],
+        SQLarFile["data"] | null,
+        SQLarFile["name"],
+      ]
+    >(
+      `UPDATE ${this.table} SET mtime = ?, sz = ?, data = ${expression} WHERE name = ?`,
+    ).run(modifiedTime, content.byteLength, data, fileNameWithPath);
+    this.prepare<
+      [
+        SQLarMetadata["name"],
+        SQLarMetadata["contentType"],
+        SQLarMetadata["checksum"],
+      ]
+    >(
+      `INSERT INTO ${this.table}_metadata(name,contentType,checksum,tags) VALUES (?, ?, ?, '{}')
+        ON CONFLICT(name) DO UPDATE SET checksum = excluded.checksum, contentType = COALESCE(excluded.contentType, contentType)`,
+    ).run(fileNameWithPath, contentType, checksum);
+    this.indexContent(fileNameWithPath, content);
+    this.checkQuotas(fileNameWithPath);
+  }
+
+  /**
+   * Moves a file and its companion rows to a new path, it must run within a transaction.
+   * @returns The error code when the file is not found or the new path is taken, undefined otherwise.
+   * @throws A `VaultError` 'QuotaExceeded' when the file exceeds a quota at its new path.
+   */
+  private moveFile(fileNameWithPath: string, newFileNameWithPath: string) {
+    if (!this.fileExists(fileNameWithPath)) {
+      return "FileNotFound" as const;
+    }
+    if (
+      fileNameWithPath !== newFileNameWithPath &&
+      this.entryExists(newFileNameWithPath)
+    ) {
+      return "FileAlreadyExists" as const;
+    }
+
+    this.createDirectoryEntries(this.parentDirectory(newFileNameWithPath));
+    this.prepare<[SQLarFile["name"], SQLarFile["mtime"], SQLarFile["name"]]>(
+      `UPDATE ${this.table} SET name = ?, mtime = ? WHERE name = ? AND ${IS_FILE}`,
+    ).run(newFileNameWithPath, Math.round(Date.now() / 1000), fileNameWithPath);
+    FILE_TABLES.forEach((suffix) => {
+      this.prepare<[SQLarFile["name"], SQLarFile["name"]]>(
+        `UPDATE ${this.table}${suffix} SET name = ? WHERE name = ?`,
+      ).run(newFileNameWithPath, fileNameWithPath);
+    });
+    this.updateIndex(
+      `UPDATE ${this.table}_fts SET name = ? WHERE name = ?`,
+      newFileNameWithPath,
+      fileNameWithPath,
+    );
+    this.checkQuotas(newFileNameWithPath);
+    return undefined;
+  }
+
+  /**
+   * Deletes a file and its companion rows, or moves it to the trash in trash mode.
+   * It must run within a transaction.
+   * @returns false when the file is not found.
+   */
+  private removeFile(fileNameWithPath: string, keepVersions: boolean) {
+    if (this.options.trash === true) {
+      if (!this.fileExists(fileNameWithPath)) {
+        return false;
+      }
+      this.addToTrash(fileNameWithPath, false, true);
+      return true;
+    }
+    return this.deleteFileRows(fileNameWithPath, keepVersions);
+  }
+
+  /**
+   * Deletes a file and its companion rows, even in trash mode. It must run within a transaction.
+   * @returns false when the file is not found.
+   */
+  private deleteFileRows(fileNameWithPath: string, keepVersions: boolean) {
+    this.deleteBlocks(fileNameWithPath);
+    this.releaseContents("name = :name", fileNameWithPath);
+    this.prepare<SQLarMetadata["name"]>(
+      `DELETE FROM ${this.table}_metadata WHERE name = ?`,
+    ).run(fileNameWithPath);
+    if (!keepVersions) {
+      this.prepare<SQLarVersion["name"]>(
+        `DELETE FROM ${this.table}_versions WHERE name = ?`,
+      ).run(fileNameWithPath);
+    }
+    this.updateIndex(
+      `DELETE FROM ${this.table}_fts WHERE name = ?`,
+      fileNameWithPath,
+    );
+    const { changes } = this.prepare<SQLarFile["name"]>(
+      `DELETE FROM ${this.table} WHERE name = ? AND ${IS_FILE}`,
+    ).run(fileNameWithPath);
+    return changes > 0;
+  }
+
+  /**
+   * Applies every item of a batch in a single transaction, which is rolled back when any item fails,
+   * the items that succeeded are then reported as 'BatchRolledBack'.
+   */
+  private applyBatch<I, T extends object, E extends VaultErrorCode>(
+    items: I[],
+    apply: (item: I, index: number) => VaultResult<T, E>,
+  ): VaultBatchResult<T, E> {
+    const files: Array<VaultResult<T, E>> = [];
+    let failed: VaultFailure<E> | undefined;
+    try {
+      this.db.transaction(() => {
+        items.forEach((item, index) => {
+          files.push(apply(item, index));
+        });
+        failed = files.find(
+          (file): file is VaultFailure<E, { [K in keyof T]?: undefined }> =>
+            !file.success,
+        );
+        if (failed !== undefined) {
+          throw new VaultError(failed.error);
+        }
+      })();
+    } catch (error) {
+      if (failed === undefined) {
+        throw error;
+      }
+      const rolledBack: VaultFailure<"BatchRolledBack"> = {
+        success: false,
+        error: "BatchRolledBack",
+      };
+      return {
+        ...this.fail(failed.error),
+        files: files.map((file) => (file.success ? rolledBack : file)),
+      };
+    }
+    return { success: true, files: files as Array<VaultSuccess<T>> };
+  }
+
+  /**
+   * Yields every file and directory below a local directory, parents before their children.
+   * Entries that are neither a file nor a directory, like symbolic links, are skipped.
+   */
+  private async *walkDirectory(
+    localPath: string,
+    relativePath: string[] = [],
+  ): AsyncGenerator<{ relativePath: string[]; stats: Stats }> {
+    const names = await fs.promises.readdir(
+      path.join(localPath, ...relativePath),
+    );
+    for (const name of names.sort()) {
+      const entryPath = [...relativePath, name];
+      const stats = await fs.promises.lstat(path.join(localPath, ...entryPath));
+      if (stats.isFile()) {
+        yield { relativePath: entryPath, stats };
+      } else if (stats.isDirectory()) {
+        yield { relativePath: entryPath, stats };
+        yield* this.walkDirectory(localPath, entryPath);
+      }
+    }
+  }
+
+  /**
+   * Yields the entries below a directory (given with its trailing "/") ordered by name,
+   * read in batches of `TRANSFER_BATCH_SIZE` entries.
+   */
+  private async *listEntries(parentPath: string) {
+    const nextEntries = this.prepare<{
+      dir: string;
+      after: string;
+      batchSize: number;
+    }>(
+      `SELECT name, mode, mtime, sz FROM ${this.table} WHERE ${isBelow(":dir")} AND name > :after ORDER BY name LIMIT :batchSize`,
+    );
+    let after = "";
+    let entries: Array<Omit<SQLarFile, "data">>;
+    do {
+      await this.waitForTransaction();
+      entries = nextEntries.all({
+        dir: parentPath.slice(0, -1),
+        after,
+        batchSize: TRANSFER_BATCH_SIZE,
+      }) as typeof entries;
+      for (const entry of entries) {
+        after = entry.name;
+        yield entry;
+      }
+    } while (entries.length === TRANSFER_BATCH_SIZE);
+  }
+
+  private async *archiveEntries(
+    parentPath: string,
+  ): AsyncGenerator<ArchiveEntry> {
+    for await (const entry of this.listEntries(parentPath)) {
+      const entryPath = entry.name.slice(parentPath.length);
+      if (entryPath.split("/").some((segment) => /^\.{0,2}$/.test(segment))) {
+        continue;
+      }
+      const isDirectory = (entry.mode & S_IFMT) === S_IFDIR;
+      yield {
+        path: entryPath,
+        isDirectory,
+        mode: entry.mode,
+        mtime: entry.mtime,
+        size: isDirectory ? 0 : entry.sz,
+        content: isDirectory ? [] : this.readContent(entry.name, 0),
+      };
+    }
+  }
+
+  private async *readContent(
+    fileNameWithPath: string,
+    start: number,
+    end?: number,
+  ): AsyncGenerator<Buffer> {
+    await this.waitForTransaction();
+    const file = this.prepare<SQLarFile["name"]>(
+      `SELECT sz, ${storedData(this.table)} IS NULL as chunked FROM ${this.table} WHERE name = ? AND ${IS_FILE}`,
+    ).get(fileNameWithPath) as
+      { sz: SQLarFile["sz"]; chunked: 0 | 1 } | undefined;
+    if (file === undefined) {
+      throw new VaultError("FileNotFound");
+    }
+
+    const last = Math.min(end ?? file.sz - 1, file.sz - 1);
+    let position = start;
+
+    if (file.chunked === 1) {
+      const nextBlock = this.prepare<[SQLarBlock["name"], number, number]>(
+        `SELECT offset, sz, sqlar_uncompress(${this.decrypted("data")},sz) as data FROM ${this.table}_blocks WHERE name = ? AND offset <= ? AND offset + sz > ?`,
+      );
+      while (position <= last) {
+        await this.waitForTransaction();
+        const block = nextBlock.get(fileNameWithPath, position, position) as
+          Omit<SQLarBlock, "name" | "seq"> | undefined;
+        if (block === undefined) {
+          throw new VaultError("FileNotFound");
+        }
+        const blockEnd = Math.min(last + 1, block.offset + block.sz);
+        yield block.data.subarray(
+          position - block.offset,
+          blockEnd - block.offset,
+        );
+        position = blockEnd;
+      }
+      return;
+    }
+
+    const { data } = this.prepare<SQLarFile["name"]>(
+      `SELECT ${this.decrypted(storedData(this.table))} as data FROM ${this.table} WHERE name = ?`,
+    ).get(fileNameWithPath) as Pick<SQLarFile, "data">;
+
+    if (data.byteLength === file.sz) {
+      while (position <= last) {
+        const chunkEnd = Math.min(last + 1, position + READ_CHUNK_SIZE);
+        yield data.subarray(position, chunkEnd);
+        position = chunkEnd;
+      }
+      return;
+    }
+
+    let inflated = 0;
+    for await (const chunk of Readable.from([data]).pipe(createInflate())) {
+      const chunkStart = inflated;
+      inflated += (chunk as Buffer).byteLength;
+      if (inflated <= position) {
+        continue;
+      }
+      const chunkEnd = Math.min(last + 1, inflated);
+      yield (chunk as Buffer).subarray(
+        position - chunkStart,
+        chunkEnd - chunkStart,
+      );
+      position = chunkEnd;
+      if (position > last) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Retrieves the total number of files stored in the database, trashed files are not counted.
+   * @returns An object containing the total number of files.
+   */
+  async getTotalFiles() {
+    return await this.retryOnBusy(async () => {
+      try {
+        const countFiles = this.prepare(
+          `SELECT count(*) as total FROM ${this.table} WHERE name LIKE '/%' AND ${IS_FILE}`,
+        );
+        return countFiles.get() as { total: number };
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
+  }
+
+  /**
+   * Measures the files stored in a directory and all of its subdirectories, to enforce quotas or bill their owner.
+   * Trashed files are not counted.
+   *
+   * @param dir - (optional) An array of directory names (Default is the whole vault).
+   * Example: ["customers", "acme"]
+   * @returns An object containing the total original size of the files, their total stored (compressed) size,
+   * including their blocks, deduplicated contents and versions, and the total number of files.
+   */
+  async getUsage(dir: string[] = []) {
+    return await this.retryOnBusy(async () => {
+      try {
+        return this.usage(`/${this.sanitizePath(dir).join("/")}`);
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
+  }
+
+  /**
+   * Stores a file in the specified directory with the given file name.
+   * The entries of its parent directories are created when missing.
+   * If the file already exists, it returns an error.
+   *
+   * @param dir - The directory path where the file will be stored.
+   * Example: ["root", "images", "profile"] | Store the file in the '/root/images/profile' directory.
+   * @param fileName - The name of the file.
+   * Example: "profile.jpeg"
+   * @param file - The file to be stored, either as a Blob or a Buffer.
+   * @param modifiedTime - (optional) The modified time of the file in seconds (Default is Date.now() / 1000).
+   * @param metadata - (optional) The content type and custom tags of the file, the content type of a Blob is used when omitted.
+   * Example: { contentType: "image/jpeg", tags: { owner: "john" } }
+   * @param compression - (optional) The compression policy of the file (Default is the `compression` option of the vault).
+   * @returns An object indicating the success of the operation and the file details.
+   */
+  async storeFile(
+    dir: string[],
+    fileName: string,
+    file: Blob | Buffer,
+    modifiedTime: number = Math.round(Date.now() / 1000),
+    metadata: FileMetadata = {},
+    compression?: CompressionPolicy,
+  ): Promise<
+    VaultResult<
+      { fileName: string; fileNameWithPath: string },
+      "FileAlreadyExists" | "QuotaExceeded" | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
+    }
+    try {
+      const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+
+      const content = await this.readFile(file, metadata);
+      await this.waitForTransaction();
+      if (this.entryExists(fileNameWithPath)) {
+        return this.fail("FileAlreadyExists");
+      }
+
+      this.db.transaction(() => {
+        this.insertFile(
+          fileNameWithPath,
+          content.content,
+          modifiedTime,
+          content.metadata,
+          undefined,
+          compression,
+        );
+      })();
+
+      return { success: true, fileName, fileNameWithPath };
+    } catch (error) {
+      if (this.isQuotaError(error)) {
+        return this.fail("QuotaExceeded");
+      }
+      throw toVaultError(error);
+    }
+  }
+
+  /**
+   * Renames a file in the storage.
+   * @param dir - The directory path of the file.
+   * @param fileName - The current name of the file.
+   * @param newFileName - The new name for the file.
+   * @param newDir - The new directory path for the file (optional).
+   * @returns An object indicating the success of the operation and the updated file information.
+   * If the file is not found, it returns an error 'FileNotFound'.
+   * If another file or directory exists at the new path, it returns an error 'FileAlreadyExists'.
+   */
+  async renameFile(
+    dir: string[],
+    fileName: string,
+    newFileName: string,
+    newDir?: string[],
+  ): Promise<
+    VaultResult<
+      { newFileName: string; newFileNameWithPath: string },
+      "FileNotFound" | "FileAlreadyExists" | "QuotaExceeded" | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
+    }
+    try {
+      await this.waitForTransaction();
+      const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+      const newFileNameWithPath = this.createFileNameWithPath(
+        newDir ?? dir,
+        newFileName,
+      );
+      const error = this.db.transaction(() =>
+        this.moveFile(fileNameWithPath, newFileNameWithPath),
+      )();
+      if (error !== undefined) {
+        return this.fail(error);
+      }
+      return { success: true, newFileName, newFileNameWithPath };
+    } catch (error) {
+      if (this.isQuotaError(error)) {
+        return this.fail("QuotaExceeded");
+      }
+      throw toVaultError(error);
+    }
+  }
+
+  /**
+   * Copies a file with its metadata (content type, checksum and tags), its previous versions are not copied.
+   * The content is copied as stored in the database, without reading it.
+   * @param dir - The directory path of the file.
+   * @param fileName - The name of the file.
+   * @param newDir - The directory path of the copy.
+   * @param newFileName - (optional) The name of the copy (Default is the name of the file).
+   * @param modifiedTime - (optional) The modified time of the copy in seconds (Default is the modified time of the file).
+   * @returns An object indicating the success of the operation and the copy information.
+   * If the file is not found, it returns an error 'FileNotFound'.
+   * If another file or directory exists at the new path, it returns an error 'FileAlreadyExists'.
+   */
+  async copyFile(
+    dir: string[],
+    fileName: string,
+    newDir: string[],
+    newFileName: string = fileName,
+    modifiedTime?: number,
+  ): Promise<
+    VaultResult<
+      { newFileName: string; newFileNameWithPath: string },
+      "FileNotFound" | "FileAlreadyExists" | "QuotaExceeded" | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
+    }
+    try {
+      await this.waitForTransaction();
+      const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+      const newFileNameWithPath = this.createFileNameWithPath(
+        newDir,
+        newFileName,
+      );
+
+      return this.db.transaction(() => {
+        if (!this.fileExists(fileNameWithPath)) {
+          return this.fail("FileNotFound");
+        }
+        if (this.entryExists(newFileNameWithPath)) {
+          return this.fail("FileAlreadyExists");
+        }
+
+        this.copyEntries(fileNameWithPath, newFileNameWithPath);
+        this.createDirectoryEntries(this.parentDirectory(newFileNameWithPath));
+        if (modifiedTime !== undefined) {
+          this.prepare<[SQLarFile["mtime"], SQLarFile["name"]]>(
+            `UPDATE ${this.table} SET mtime = ? WHERE name = ?`,
+          ).run(modifiedTime, newFileNameWithPath);
+        }
+
+        return { success: true as const, newFileName, newFileNameWithPath };
+      })();
+    } catch (error) {
+      if (this.isQuotaError(error)) {
+        return this.fail("QuotaExceeded");
+      }
+      throw toVaultError(error);
+    }
+  }
+
+  /**
+   * Updates the content of a file in the file storage.
+   * The previous content is kept as a version when the vault is created with the `maxVersions` option.
+   * @param dir - The directory path where the file is located.
+   * @param fileName - The name of the file.
+   * @param newContent - The new content of the file as a Blob or Buffer, the content type of a Blob replaces the stored one.
+   * @param modifiedTime - (optional) The modified time of the file in seconds (Default is Date.now() / 1000).
+   * @param compression - (optional) The compression policy of the file (Default is the `compression` option of the vault).
+   * @returns An object indicating the success of the update operation and the updated file information.
+   */
+  async updateFileContent(
+    dir: string[],
+    fileName: string,
+    newContent: Blob | Buffer,
+    modifiedTime: number = Math.round(Date.now() / 1000),
+    compression?: CompressionPolicy,
+  ): Promise<
+    VaultResult<
+      { fileName: string; fileNameWithPath: string },
+      "FileNotFound" | "QuotaExceeded" | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
+    }
+    try {
+      const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+
+      let fileBuffer: Buffer;
+      let contentType: string | null = null;
+      if (newContent instanceof Blob) {
+        fileBuffer = await this.blobToBuffer(newContent);
+        contentType = newContent.type !== "" ? newContent.type : null;
+      } else {
+        fileBuffer = newContent;
+      }
+
+      await this.waitForTransaction();
+      if (!this.fileExists(fileNameWithPath)) {
+        return this.fail("FileNotFound");
+      }
+
+      this.db.transaction(() => {
+        this.replaceContent(
+          fileNameWithPath,
+          fileBuffer,
+          modifiedTime,
+          contentType,
+          compression,
+        );
+      })();
+
+      return { success: true, fileName, fileNameWithPath };
+    } catch (error) {
+      if (this.isQuotaError(error)) {
+        return this.fail("QuotaExceeded");
+      }
+      throw toVaultError(error);
+    }
+  }
+
+  /**
+   * Retrieves a file from the storage based on the specified directory and file name.
+   * @param dir - The directory path of the file.
+   * Example: ["root", "images", "profile"]
+   * @param fileName - The name of the file.
+   * Example: "profile.jpeg"
+   * @returns A promise that resolves to an object containing the success status and the retrieved file, if successful.
+   * The file contains its metadata: 'contentType', 'checksum' (SHA-256) and 'tags'.
+   * If the file is not found, it returns an error 'FileNotFound'.
+   * If the encrypted content has been tampered with, it returns an error 'DecryptionFailed'.
+   */
+  async retrieveFile(
+    dir: string[],
+    fileName: string,
+  ): Promise<
+    VaultResult<
+      { file: FileInfo & { data: Buffer } },
+      "FileNotFound" | "DecryptionFailed"
+    >
+  > {
+    return await this.retryOnBusy(async () => {
+      try {
+        const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+        const selectFile = this.prepare<SQLarFile["name"]>(
+          `SELECT name, mode, mtime, CASE WHEN stored IS NULL THEN NULL ELSE sqlar_uncompress(${this.decrypted("stored")},sz) END as data, sz
+        FROM (SELECT name, mode, mtime, sz, ${storedData(this.table)} as stored FROM ${this.table} WHERE name = ? AND ${IS_FILE})`,
+        );
+
+        let file: SQLarFile | undefined;
+        try {
+          const row = selectFile.get(fileNameWithPath) as
+            | (Omit<SQLarFile, "data"> & { data: SQLarFile["data"] | null })
+            | undefined;
+          if (row !== undefined) {
+            file = { ...row, data: row.data ?? this.readBlocks(row.name) };
+          }
+        } catch (error) {
+          if (this.isDecryptionError(error)) {
+            return this.fail("DecryptionFailed");
+          }
+          throw error;
+        }
+        if (file === undefined) {
+          return this.fail("FileNotFound");
+        }
+        const [fileWithMetadata] = this.withMetadata([
+          {
+            fileNameWithPath: file.name,
+            name: fileName,
+            mode: file.mode,
+            mtime: file.mtime,
+            data: file.data,
+            sz: file.sz,
+          },
+        ]);
+        return {
+          success: true,
+          file: fileWithMetadata,
+        };
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
+  }
+
+  /**
+   * Retrieves the attributes and metadata of a file without reading its content.
+   * @param dir - The directory path of the file.
+   * Example: ["root", "images", "profile"]
+   * @param fileName - The name of the file.
+   * Example: "profile.jpeg"
+   * @returns A promise that resolves to an object containing the success status and the file (without 'data'), if successful.
+   * If the file is not found, it returns an error 'FileNotFound'.
+   */
+  async statFile(
+    dir: string[],
+    fileName: string,
+  ): Promise<VaultResult<{ file: FileInfo }, "FileNotFound">> {
+    return await this.retryOnBusy(async () => {
+      try {
+        const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+        const file = this.prepare<SQLarFile["name"]>(
+          `SELECT name, mode, mtime, sz FROM ${this.table} WHERE name = ? AND ${IS_FILE}`,
+        ).get(fileNameWithPath) as Omit<SQLarFile, "data"> | undefined;
+        if (file === undefined) {
+          return this.fail("FileNotFound");
+        }
+        const [fileWithMetadata] = this.withMetadata([
+          {
+            fileNameWithPath: file.name,
+            name: fileName,
+            mode: file.mode,
+            mtime: file.mtime,
+            sz: file.sz,
+          },
+        ]);
+        return {
+          success: true,
+          file: fileWithMetadata,
+        };
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
+  }
+
+  /**
+   * Retrieves a byte range of a file, e.g. to answer an HTTP Range request.
+   * Only the blocks of the range are read, and a compressed content is only inflated up to the end of the range.
+   * @param dir - The directory path of the file.
+   * Example: ["root", "videos"]
+   * @param fileName - The name of the file.
+   * Example: "movie.mp4"
+   * @param start - The position of the first byte to retrieve.
+   * @param end - (optional) The position of the last byte (inclusive) to retrieve, it is limited to the file size (Default is the last byte).
+   * @returns A promise that resolves to an object containing the success status and the requested slice in 'data', if successful.
+   * If the file is not found, it returns an error 'FileNotFound'.
+   * If the range can not be satisfied, it returns an error 'RangeNotSatisfiable' and the total size of the file
+   * as 'sz', also given as `sz` by the `VaultError` thrown with the `throwOnError` option.
+   * If the encrypted content has been tampered with, it returns an error 'DecryptionFailed'.
+   */
+  async retrieveFileRange(
+    dir: string[],
+    fileName: string,
+    start: number,
+    end?: number,
+  ): Promise<
+    | VaultResult<
+        {
+          file: Omit<
+            FileInfo,
+            | "contentType"
+            | "checksum"
+            | "tags"
+            | "compressedSize"
+            | "compressionRatio"
+          > & {
+            start: number;
+            end: number;
+            data: Buffer;
+          };
+          sz?: undefined;
+        },
+        "FileNotFound" | "DecryptionFailed"
+      >
+    | VaultFailure<"RangeNotSatisfiable", { sz: number; file?: undefined }>
+  > {
+    return await this.retryOnBusy(async () => {
+      try {
+        const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+        const file = this.prepare<SQLarFile["name"]>(
+          `SELECT name, mode, mtime, sz FROM ${this.table} WHERE name = ? AND ${IS_FILE}`,
+        ).get(fileNameWithPath) as Omit<SQLarFile, "data"> | undefined;
+        if (file === undefined) {
+          return this.fail("FileNotFound");
+        }
+
+        const last = Math.min(end ?? file.sz - 1, file.sz - 1);
+        if (
+          !Number.isInteger(start) ||
+          !Number.isInteger(last) ||
+          start < 0 ||
+          start > last
+        ) {
+          return this.fail("RangeNotSatisfiable", file.sz);
+        }
+
+        const chunks: Buffer[] = [];
+        try {
+          for await (const chunk of this.readContent(file.name, start, last)) {
+            chunks.push(chunk);
+          }
+        } catch (error) {
+          if (this.isDecryptionError(error)) {
+            return this.fail("DecryptionFailed");
+          }
+          throw error;
+        }
+
+        return {
+          success: true,
+          file: {
+            fileNameWithPath: file.name,
+            name: fileName,
+            mode: file.mode,
+            mtime: file.mtime,
+            sz: file.sz,
+            start,
+            end: last,
+            data: Buffer.concat(chunks),
+          },
+        };
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
+  }
+
+  /**
+   * Creates a writable stream that stores a file in the specified directory with the given file name.
+   * With the `blockStorage` option, the content is written in blocks, so large files are stored without being
+   * loaded into memory. Otherwise, or when it fits in a single block, the content is stored as a regular sqlar row.
+   * The blocks written before the stream fails or is destroyed are deleted.
+   * If the file already exists, the stream is destroyed with an error 'FileAlreadyExists'
+   * ('ReadOnlyVault' when the vault is read-only), unless `overwrite` is true: its content is then replaced
+   * like with `updateFileContent`, keeping its tags when none are given.
+   * If the file exceeds a quota, the stream is destroyed with an error 'QuotaExceeded' and the file is not stored.
+   *
+   * @param dir - The directory path where the file will be stored.
+   * Example: ["root", "videos"]
+   * @param fileName - The name of the file.
+   * Example: "movie.mp4"
+   * @param options - (optional) The modified time of the file in seconds (Default is Date.now() / 1000),
+   * whether it is written in blocks (Default is the `blockStorage` option of the vault),
+   * whether an existing file is replaced (Default is false),
+   * the size of each stored block in bytes (Default is 1 MiB), the compression policy of the file
+   * (Default is the `compression` option of the vault) and the metadata of the file.
+   * @returns A Writable stream, the file is available once the stream emits 'finish'.
+   */
+  createWriteStream(
+    dir: string[],
+    fileName: string,
+    options: {
+      modifiedTime?: number;
+      blockStorage?: boolean;
+      overwrite?: boolean;
+      blockSize?: number;
+      compression?: CompressionPolicy;
+    } & FileMetadata = {},
+  ): Writable {
+    const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+    const stagingName = `${fileNameWithPath}:${randomUUID()}`;
+    const blockStorage = options.blockStorage ?? this.options.blockStorage;
+    const blockSize = options.blockSize ?? DEFAULT_BLOCK_SIZE;
+    const hash = createHash("sha256");
+
+    const stored = (content: Buffer) =>
+      this.storedContent(
+        content,
+        fileNameWithPath,
+        options.contentType,
+        options.compression,
+      );
+    const insertBlock = (
+      seq: SQLarBlock["seq"],
+      offset: SQLarBlock["offset"],
+      block: Buffer,
+    ) => {
+      const { expression, data } = stored(block);
+      this.prepare<
+        [
+          SQLarBlock["name"],
+          SQLarBlock["seq"],
+          SQLarBlock["offset"],
+          SQLarBlock["sz"],
+          SQLarBlock["data"],
+        ]
+      >(
+        `INSERT INTO ${this.table}_blocks(name,seq,offset,sz,data) VALUES (?, ?, ?, ?, ${expression})`,
+      ).run(stagingName, seq, offset, block.byteLength, data);
+    };
+    const insertFile = (
+      modifiedTime: SQLarFile["mtime"],
+      sz: SQLarFile["sz"],
+      content: Buffer | null,
+    ) => {
+      const { expression, data } =
+        content === null ? { expression: "?", data: null } : stored(content);
+      this.prepare<
+        [
+          SQLarFile["name"],
+          SQLarFile["mode"],
+          SQLarFile["mtime"],
+          SQLarFile["sz"],
+          SQLarFile["data"] | null,
+        ]
+      >(
+        `INSERT INTO ${this.table}(name,mode,mtime,sz,data) VALUES (?, ?, ?, ?, ${expression})
+        ON CONFLICT(name) DO UPDATE SET mtime = excluded.mtime, sz = excluded.sz, data = excluded.data`,
+      ).run(fileNameWithPath, 0o644, modifiedTime, sz, data);
+    };
+    // an existing file can only be replaced with `overwrite`, a directory never
+    const isTaken = () =>
+      this.entryExists(fileNameWithPath) &&
+      (options.overwrite !== true || !this.fileExists(fileNameWithPath));
+    const updatedBlocks = this.prepare<
+      [SQLarBlock["name"], SQLarBlock["name"]]
+    >(`UPDATE ${this.table}_blocks SET name = ? WHERE name = ?`);
+
+    let pending: Buffer[] = [];
+    let pendingSize = 0;
+    let seq = 0;
+    let offset = 0;
+    let finished = false;
+
+    const writeBlocks = (flush: boolean) => {
+      let buffer = Buffer.concat(pending);
+      const minimumSize = flush ? 1 : blockSize;
+      while (buffer.byteLength >= minimumSize) {
+        const block = buffer.subarray(0, blockSize);
+        insertBlock(seq, offset, block);
+        seq += 1;
+        offset += block.byteLength;
+        buffer = buffer.subarray(block.byteLength);
+      }
+      pending = [buffer];
+      pendingSize = buffer.byteLength;
+    };
+
+    // the statements run once no transaction is running, like the ones of the other methods
+    const afterTransaction = (
+      statements: () => void,
+      callback: (error?: Error | null) => void,
+    ) => {
+      this.waitForTransaction().then(() => {
+        try {
+          statements();
+          callback();
+        } catch (error) {
+          callback(toVaultError(error) as Error);
+        }
+      }, callback);
+    };
+
+    return new Writable({
+      construct: (callback) => {
+        if (this.readonly) {
+          callback(new VaultError("ReadOnlyVault"));
+          return;
+        }
+        afterTransaction(() => {
+          if (isTaken()) {
+            throw new VaultError("FileAlreadyExists");
+          }
+        }, callback);
+      },
+      write: (chunk: Buffer, _encoding, callback) => {
+        hash.update(chunk);
+        pending.push(chunk);
+        pendingSize += chunk.byteLength;
+        if (pendingSize < blockSize || blockStorage !== true) {
+          callback();
+          return;
+        }
+        afterTransaction(() => {
+          writeBlocks(false);
+        }, callback);
+      },
+      final: (callback) => {
+        const modifiedTime =
+          options.modifiedTime ?? Math.round(Date.now() / 1000);
+        afterTransaction(() => {
+          this.db.transaction(() => {
+            if (isTaken()) {
+              throw new VaultError("FileAlreadyExists");
+            }
+            if (this.fileExists(fileNameWithPath)) {
+              this.archiveVersion(fileNameWithPath);
+              this.deleteBlocks(fileNameWithPath);
+              this.releaseContents("name = :name", fileNameWithPath);
+              this.updateIndex(
+                `DELETE FROM ${this.table}_fts WHERE name = ?`,
+                fileNameWithPath,
+              );
+              this.replaceMetadata(fileNameWithPath, hash.digest("hex"), {
+                contentType: options.contentType,
+                tags: options.tags,
+              });
+            } else {
+              this.createDirectoryEntries(
+                this.parentDirectory(fileNameWithPath),
+                modifiedTime,
+              );
+              this.storeMetadata(fileNameWithPath, hash.digest("hex"), {
+                contentType: options.contentType,
+                tags: options.tags,
+              });
+            }
+            if (seq === 0) {
+              const content = Buffer.concat(pending);
+              insertFile(modifiedTime, content.byteLength, content);
+              this.indexContent(fileNameWithPath, content);
+            } else {
+              writeBlocks(true);
+              insertFile(modifiedTime, offset, null);
+              updatedBlocks.run(fileNameWithPath, stagingName);
+            }
+            this.checkQuotas(fileNameWithPath);
+          })();
+          finished = true;
+        }, callback);
+      },
+      destroy: (error, callback) => {
+        if (finished || this.readonly) {
+          callback(error);
+          return;
+        }
+        afterTransaction(
+          () => {
+            this.deleteBlocks(stagingName);
+          },
+          (deleteError) => {
+            callback(error ?? deleteError ?? null);
+          },
+        );
+      },
+    });
+  }
+
+  /**
+   * Creates a readable stream with the content of a file.
+   * Files written through `createWriteStream` are read block by block.
+   * If the file is not found, the stream is destroyed with an error 'FileNotFound'.
+   *
+   * @param dir - The directory path of the file.
+   * Example: ["root", "videos"]
+   * @param fileName - The name of the file.
+   * Example: "movie.mp4"
+   * @param options - (optional) The first and last (inclusive) byte positions to read, like `fs.createReadStream`.
+   * @returns A Readable stream with the (uncompressed) file content.
+   */
+  createReadStream(
+    dir: string[],
+    fileName: string,
+    options: { start?: number; end?: number } = {},
+  ): Readable {
+    const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+    return Readable.from(
+      withVaultErrors(
+        this.readContent(fileNameWithPath, options.start ?? 0, options.end),
+      ),
+      { objectMode: false },
+    );
+  }
 
-  constructor(db: Database) {
-    this.db = db;
+  /**
+   * Retrieves the previous versions of a file, newest first.
+   * @param dir - The directory path of the file.
+   * Example: ["root", "docs"]
+   * @param fileName - The name of the file.
+   * Example: "report.docx"
+   * @returns An object containing the list of versions (without their content) and a success flag.
+   */
+  async listFileVersions(dir: string[], fileName: string) {
+    return await this.retryOnBusy(async () => {
+      try {
+        const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+        const versions = this.prepare<SQLarVersion["name"]>(
+          `SELECT version, mtime, sz FROM ${this.table}_versions WHERE name = ? ORDER BY version DESC`,
+        ).all(fileNameWithPath) as Array<Omit<SQLarVersion, "name" | "data">>;
+        return {
+          versions: versions.map((v) => ({ ...v, fileNameWithPath })),
+          success: true,
+        };
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
   }
 
-  private fileExists(filePath: string): boolean {
-    const file = this.db
-      .prepare<SQLarFile["name"]>("SELECT name FROM sqlar WHERE name = ?")
-      .get(filePath) as SQLarFile | undefined;
-    return file !== undefined;
+  /**
+   * Retrieves a previous version of a file.
+   * @param dir - The directory path of the file.
+   * Example: ["root", "docs"]
+   * @param fileName - The name of the file.
+   * Example: "report.docx"
+   * @param version - The version number, as returned by `listFileVersions`.
+   * @returns A promise that resolves to an object containing the success status and the retrieved version, if successful.
+   * If the version is not found, it returns an error 'VersionNotFound'.
+   * If the encrypted content has been tampered with, it returns an error 'DecryptionFailed'.
+   */
+  async retrieveFileVersion(
+    dir: string[],
+    fileName: string,
+    version: number,
+  ): Promise<
+    VaultResult<
+      {
+        file: Omit<SQLarVersion, "name"> & {
+          fileNameWithPath: string;
+          name: string;
+        };
+      },
+      "VersionNotFound" | "DecryptionFailed"
+    >
+  > {
+    return await this.retryOnBusy(async () => {
+      try {
+        const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+        const selectVersion = this.prepare<
+          [SQLarVersion["name"], SQLarVersion["version"]]
+        >(
+          `SELECT version, mtime, sz, sqlar_uncompress(${this.decrypted("data")},sz) as data FROM ${this.table}_versions WHERE name = ? AND version = ?`,
+        );
+
+        let fileVersion: Omit<SQLarVersion, "name"> | undefined;
+        try {
+          fileVersion = selectVersion.get(fileNameWithPath, version) as
+            Omit<SQLarVersion, "name"> | undefined;
+        } catch (error) {
+          if (this.isDecryptionError(error)) {
+            return this.fail("DecryptionFailed");
+          }
+          throw error;
+        }
+        if (fileVersion === undefined) {
+          return this.fail("VersionNotFound");
+        }
+        return {
+          success: true,
+          file: {
+            fileNameWithPath,
+            name: fileName,
+            version: fileVersion.version,
+            mtime: fileVersion.mtime,
+            data: fileVersion.data,
+            sz: fileVersion.sz,
+          },
+        };
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
   }
 
-  private sanitizePath(filePath: string[]): string[] {
-    return filePath
-      .filter((dir) => dir.trim() !== "")
-      .map((dir) => dir.trim().replace(/\/|\s|\\/g, "_"));
+  /**
+   * Restores a previous version of a file, the current content is kept as a new version.
+   * @param dir - The directory path of the file.
+   * Example: ["root", "docs"]
+   * @param fileName - The name of the file.
+   * Example: "report.docx"
+   * @param version - The version number, as returned by `listFileVersions`.
+   * @returns An object indicating the success of the operation and the restored file information.
+   * If the version is not found, it returns an error 'VersionNotFound'.
+   * If the file was deleted (keeping its versions), it is stored again.
+   */
+  async restoreFileVersion(
+    dir: string[],
+    fileName: string,
+    version: number,
+  ): Promise<
+    VaultResult<
+      { fileName: string; fileNameWithPath: string },
+      | "VersionNotFound"
+      | "DecryptionFailed"
+      | "FileAlreadyExists"
+      | "QuotaExceeded"
+      | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
+    }
+    try {
+      const fileVersion = await this.retrieveFileVersion(
+        dir,
+        fileName,
+        version,
+      );
+      if (!fileVersion.success) {
+        return this.fail(fileVersion.error);
+      }
+      const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+      const { data } = fileVersion.file;
+      const modifiedTime = Math.round(Date.now() / 1000);
+
+      await this.waitForTransaction();
+      const error = this.db.transaction(() => {
+        if (this.fileExists(fileNameWithPath)) {
+          this.replaceContent(fileNameWithPath, data, modifiedTime, null);
+          return undefined;
+        }
+        if (this.entryExists(fileNameWithPath)) {
+          return "FileAlreadyExists" as const;
+        }
+        this.insertFile(fileNameWithPath, data, modifiedTime, {});
+        return undefined;
+      })();
+      if (error !== undefined) {
+        return this.fail(error);
+      }
+      return { success: true, fileName, fileNameWithPath };
+    } catch (error) {
+      if (this.isQuotaError(error)) {
+        return this.fail("QuotaExceeded");
+      }
+      throw toVaultError(error);
+    }
   }
 
-  private createFileNameWithPath(filePath: string[], fileName: string): string {
-    const sanitizedPath = this.sanitizePath(filePath).join("/");
-    if (sanitizedPath === "") {
-      return `/${fileName}`;
+  /**
+   * Deletes a file from the storage.
+   * @param dir - The directory path where the file is located.
+   * Example: ["root", "images", "profile"]
+   * @param fileName - The name of the file to be deleted.
+   * Example: "profile.jpeg"
+   * @param keepVersions - (optional) Keeps the previous versions of the file, a file stored later with the same name
+   * continues its version history (Default is false). In trash mode the versions always go to the trash with the file.
+   * @returns An object indicating the success of the operation.
+   * If the file is not found, it returns an error 'FileNotFound'.
+   */
+  async deleteFile(
+    dir: string[],
+    fileName: string,
+    keepVersions = false,
+  ): Promise<VaultResult<object, "FileNotFound" | "ReadOnlyVault">> {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
+    }
+    try {
+      await this.waitForTransaction();
+      const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+
+      const deleted = this.db.transaction(() =>
+        this.removeFile(fileNameWithPath, keepVersions),
+      )();
+      if (!deleted) {
+        return this.fail("FileNotFound");
+      }
+      return { success: true };
+    } catch (error) {
+      throw toVaultError(error);
     }
-    return `/${sanitizedPath}/${fileName}`;
   }
 
-  private async blobToBuffer(blob: Blob): Promise<Buffer> {
-    return Buffer.from(await blob.arrayBuffer());
+  /**
+   * Stores several files in a single transaction, which is much faster than storing them one by one.
+   * If any file already exists, none of the files are stored.
+   *
+   * @param files - The files to store, with the parameters of `storeFile`.
+   * Example: [{ dir: ["root", "images"], fileName: "profile.jpeg", file: blob }]
+   * @returns An object indicating the success of the operation and the result of each file, in their order.
+   * If a file already exists, it returns the error 'FileAlreadyExists' of the file and of the batch.
+   */
+  async storeFiles(
+    files: BatchFile[],
+  ): Promise<
+    VaultBatchResult<
+      { fileName: string; fileNameWithPath: string },
+      "FileAlreadyExists" | "QuotaExceeded" | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return { ...this.fail("ReadOnlyVault"), files: [] };
+    }
+    try {
+      const contents = await Promise.all(
+        files.map(
+          async ({ file, metadata }) =>
+            await this.readFile(file, metadata ?? {}),
+        ),
+      );
+      const modifiedTime = Math.round(Date.now() / 1000);
+      await this.waitForTransaction();
+
+      return this.applyBatch<
+        BatchFile,
+        { fileName: string; fileNameWithPath: string },
+        "FileAlreadyExists" | "QuotaExceeded"
+      >(files, (file, index) => {
+        const fileNameWithPath = this.createFileNameWithPath(
+          file.dir,
+          file.fileName,
+        );
+        if (this.entryExists(fileNameWithPath)) {
+          return { success: false, error: "FileAlreadyExists" };
+        }
+        const { content, metadata } = contents[index];
+        try {
+          this.db.transaction(() => {
+            this.insertFile(
+              fileNameWithPath,
+              content,
+              file.modifiedTime ?? modifiedTime,
+              metadata,
+              undefined,
+              file.compression,
+            );
+          })();
+        } catch (error) {
+          if (this.isQuotaError(error)) {
+            return { success: false, error: "QuotaExceeded" };
+          }
+          throw error;
+        }
+        return { success: true, fileName: file.fileName, fileNameWithPath };
+      });
+    } catch (error) {
+      throw toVaultError(error);
+    }
   }
 
   /**
-   * Retrieves the total number of files stored in the database.
-   * @returns An object containing the total number of files.
+   * Deletes several files in a single transaction.
+   * If any file is not found, none of the files are deleted.
+   *
+   * @param files - The directory path and name of each file.
+   * Example: [{ dir: ["root", "images"], fileName: "profile.jpeg" }]
+   * @param keepVersions - (optional) Keeps the previous versions of the files, like `deleteFile` (Default is false).
+   * @returns An object indicating the success of the operation and the result of each file, in their order.
+   * If a file is not found, it returns the error 'FileNotFound' of the file and of the batch.
    */
-  async getTotalFiles() {
-    const countFiles = this.db.prepare("SELECT count(*) as total FROM sqlar");
-    return countFiles.get() as { total: number };
+  async deleteFiles(
+    files: FilePath[],
+    keepVersions = false,
+  ): Promise<
+    VaultBatchResult<
+      { fileNameWithPath: string },
+      "FileNotFound" | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return { ...this.fail("ReadOnlyVault"), files: [] };
+    }
+    try {
+      await this.waitForTransaction();
+      return this.applyBatch<
+        FilePath,
+        { fileNameWithPath: string },
+        "FileNotFound"
+      >(files, ({ dir, fileName }) => {
+        const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+        if (!this.removeFile(fileNameWithPath, keepVersions)) {
+          return { success: false, error: "FileNotFound" };
+        }
+        return { success: true, fileNameWithPath };
+      });
+    } catch (error) {
+      throw toVaultError(error);
+    }
   }
 
   /**
-   * Stores a file in the specified directory with the given file name.
-   * If the file already exists, it returns an error.
+   * Moves several files in a single transaction, in their order.
+   * If any file is not found or its new path is taken, none of the files are moved.
    *
-   * @param dir - The directory path where the file will be stored.
-   * Example: ["root", "images", "profile"] | Store the file in the '/root/images/profile' directory.
-   * @param fileName - The name of the file.
-   * Example: "profile.jpeg"
-   * @param file - The file to be stored, either as a Blob or a Buffer.
-   * @param modifiedTime - (optional) The modified time of the file in seconds (Default is Date.now() / 1000).
-   * @returns An object indicating the success of the operation and the file details.
+   * @param files - The directory path and name of each file, with its new directory path and (optional) new name.
+   * Example: [{ dir: ["root", "images"], fileName: "profile.jpeg", newDir: ["root", "archive"] }]
+   * @returns An object indicating the success of the operation and the result of each file, in their order.
+   * If a file is not found, it returns the error 'FileNotFound' of the file and of the batch.
+   * If another file or directory exists at a new path, it returns the error 'FileAlreadyExists' of the file and of the batch.
    */
-  async storeFile(
+  async moveFiles(
+    files: FileMove[],
+  ): Promise<
+    VaultBatchResult<
+      { newFileName: string; newFileNameWithPath: string },
+      "FileNotFound" | "FileAlreadyExists" | "QuotaExceeded" | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return { ...this.fail("ReadOnlyVault"), files: [] };
+    }
+    try {
+      await this.waitForTransaction();
+      return this.applyBatch<
+        FileMove,
+        { newFileName: string; newFileNameWithPath: string },
+        "FileNotFound" | "FileAlreadyExists" | "QuotaExceeded"
+      >(files, ({ dir, fileName, newDir, newFileName }) => {
+        const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+        const newName = newFileName ?? fileName;
+        const newFileNameWithPath = this.createFileNameWithPath(
+          newDir,
+          newName,
+        );
+        try {
+          const error = this.db.transaction(() =>
+            this.moveFile(fileNameWithPath, newFileNameWithPath),
+          )();
+          if (error !== undefined) {
+            return { success: false, error };
+          }
+        } catch (error) {
+          if (this.isQuotaError(error)) {
+            return { success: false, error: "QuotaExceeded" };
+          }
+          throw error;
+        }
+        return {
+          success: true,
+          newFileName: newName,
+          newFileNameWithPath,
+        };
+      });
+    } catch (error) {
+      throw toVaultError(error);
+    }
+  }
+
+  /**
+   * Runs a callback in a transaction, every change made through the vault given to the callback is committed
+   * when it resolves, or rolled back when it throws.
+   * Within the callback, the methods of the vault throw their failures as a `VaultError` (like with the `throwOnError`
+   * option) so that a failure rolls back the transaction, unless it is caught.
+   * Transactions run one at a time on the database connection, even across the vaults of different tables, a transaction started within the callback is nested (as a savepoint) and
+   * only rolls back its own changes. The calls on the vault made outside of the callback wait until the transaction
+   * is committed or rolled back.
+   *
+   * @param callback - The function that makes the changes, given the vault.
+   * Example: async (tx) => { await tx.deleteFile(["inbox"], "a.txt"); await tx.storeFile(["done"], "a.txt", data); }
+   * @returns The value returned by the callback.
+   */
+  async transaction<T>(callback: (tx: this) => Promise<T>): Promise<T> {
+    const depth = this.transactions.depth.getStore();
+    if (depth !== undefined) {
+      const savepoint = `${this.table}_transaction_${depth + 1}`;
+      try {
+        this.db.exec(`SAVEPOINT ${savepoint}`);
+      } catch (error) {
+        throw toVaultError(error);
+      }
+      try {
+        const result = await this.transactions.depth.run(
+          depth + 1,
+          async () => await callback(this),
+        );
+        this.db.exec(`RELEASE ${savepoint}`);
+        return result;
+      } catch (error) {
+        if (this.db.inTransaction) {
+          this.db.exec(`ROLLBACK TO ${savepoint}`);
+          this.db.exec(`RELEASE ${savepoint}`);
+        }
+        throw toVaultError(error);
+      }
+    }
+
+    const previous = this.transactions.pending;
+    let done = () => {};
+    this.transactions.pending = new Promise((resolve) => {
+      done = resolve;
+    });
+    await previous;
+    try {
+      this.db.exec("BEGIN IMMEDIATE");
+      try {
+        const result = await this.transactions.depth.run(
+          0,
+          async () => await callback(this),
+        );
+        this.db.exec("COMMIT");
+        return result;
+      } catch (error) {
+        if (this.db.inTransaction) {
+          this.db.exec("ROLLBACK");
+        }
+        throw error;
+      }
+    } catch (error) {
+      throw toVaultError(error);
+    } finally {
+      done();
+    }
+  }
+
+  /**
+   * Retrieves a list of files from the specified directory.
+   *
+   * @param dir - The directory path.
+   * @param filesPerPage - The number of files to retrieve per page. Default is 20.
+   * @param pageNumber - The page number to retrieve. Default is 1.
+   * @param orderBy - The field to order the files by. Valid values are "name", "mtime", or "sz". Default is "name".
+   * @param order - The order in which to sort the files. Valid values are "ASC" or "DESC". Default is "ASC".
+   * @param recursive - List the files of every nested subdirectory. Default is true.
+   * When false, only the direct children are listed: subdirectories come first (with the total files, total size
+   * and latest mtime of everything below them) followed by the files, and both share the same pages.
+   * @returns An object containing the list of files, current page, total files and a success flag.
+   * When not recursive, it also contains the list of subdirectories and the total of subdirectories.
+   */
+  async listFiles(
     dir: string[],
+    filesPerPage: number = 20,
+    pageNumber: number = 1,
+    orderBy: "name" | "mtime" | "sz" = "name",
+    order: "ASC" | "DESC" = "ASC",
+    recursive: boolean = true,
+  ) {
+    return await this.retryOnBusy(async () => {
+      try {
+        const skip = pageNumber <= 1 ? 0 : (pageNumber - 1) * filesPerPage;
+
+        if (!recursive) {
+          const children = this.listChildren(
+            dir,
+            skip,
+            filesPerPage,
+            orderBy,
+            order,
+          );
+          return {
+            files: children.files,
+            directories: children.directories,
+            totalFiles: children.totalFiles,
+            totalDirectories: children.totalDirectories,
+            currentPage: pageNumber,
+            success: true,
+          };
+        }
+
+        const sanitizedPath = this.sanitizePath(dir).join("/");
+        const directory = `/${sanitizedPath}`;
+        const countFiles = this.prepare<{ dir: string }>(
+          `SELECT count(*) as total FROM ${this.table} WHERE ${isBelow(":dir")} AND ${IS_FILE}`,
+        );
+        const files = this.prepare<{
+          dir: string;
+          skip: typeof skip;
+          filesPerPage: typeof filesPerPage;
+        }>(
+          `SELECT name, mode, mtime, sz FROM ${this.table} WHERE ${isBelow(":dir")} AND ${IS_FILE} ORDER BY ${orderBy} ${order} LIMIT :skip, :filesPerPage`,
+        );
+
+        const transaction = this.db.transaction(() => {
+          const { total } = countFiles.get({ dir: directory }) as {
+            total: number;
+          };
+          const filesList = files.all({
+            dir: directory,
+            skip,
+            filesPerPage,
+          }) as Array<Omit<SQLarFile, "data">>;
+          return {
+            totalFiles: total,
+            filesList: this.withMetadata(
+              filesList.map((f) => ({
+                ...f,
+                fileNameWithPath: f.name,
+                name: f.name.split("/").at(-1) ?? "",
+              })),
+            ),
+          };
+        })();
+
+        return {
+          files: transaction.filesList,
+          totalFiles: transaction.totalFiles,
+          currentPage: pageNumber,
+          success: true,
+        };
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
+  }
+
+  /**
+   * Search files in the specified directory, if an empty array is provided, it will search in all directories.
+   *
+   * @param fileName - The file name.
+   * @param dir - The directory path (can be and empty array '[]' to search in all directories).
+   * @param filesPerPage - The number of files to retrieve per page. Default is 20.
+   * @param pageNumber - The page number to retrieve. Default is 1.
+   * @param orderBy - The field to order the files by. Valid values are "name", "mtime", or "sz". Default is "name".
+   * @param order - The order in which to sort the files. Valid values are "ASC" or "DESC". Default is "ASC".
+   * @returns An object containing the list of files, current page, total files and a success flag.
+   */
+  async searchFiles(
     fileName: string,
-    file: Blob | Buffer,
-    modifiedTime: number = Math.round(Date.now() / 1000),
+    dir: string[],
+    filesPerPage: number = 20,
+    pageNumber: number = 1,
+    orderBy: "name" | "mtime" | "sz" = "name",
+    order: "ASC" | "DESC" = "ASC",
   ) {
-    const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+    return await this.retryOnBusy(async () => {
+      try {
+        const skip = pageNumber <= 1 ? 0 : (pageNumber - 1) * filesPerPage;
+
+        const sanitizedPath = this.sanitizePath(dir).join("/");
+        const params = {
+          dir: sanitizedPath === "" ? "" : `/${sanitizedPath}`,
+          name: `%${fileName}%`,
+        };
+        const matches = `${isBelow(":dir")} AND substr(name, length(:dir) + 2) LIKE :name AND ${IS_FILE}`;
+
+        const countFiles = this.prepare<typeof params>(
+          `SELECT count(*) as total FROM ${this.table} WHERE ${matches}`,
+        );
+        const files = this.prepare<
+          typeof params & {
+            skip: typeof skip;
+            filesPerPage: typeof filesPerPage;
+          }
+        >(
+          `SELECT name, mode, mtime, sz FROM ${this.table} WHERE ${matches} ORDER BY ${orderBy} ${order} LIMIT :skip, :filesPerPage`,
+        );
+
+        const transaction = this.db.transaction(() => {
+          const { total } = countFiles.get(params) as {
+            total: number;
+          };
+          const filesList = files.all({
+            ...params,
+            skip,
+            filesPerPage,
+          }) as Array<Omit<SQLarFile, "data">>;
+          return {
+            totalFiles: total,
+            filesList: this.withMetadata(
+              filesList.map((f) => ({
+                ...f,
+                fileNameWithPath: f.name,
+                name: f.name.split("/").at(-1) ?? "",
+              })),
+            ),
+          };
+        })();
+
+        return {
+          files: transaction.filesList,
+          totalFiles: transaction.totalFiles,
+          currentPage: pageNumber,
+          success: true,
+        };
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
+  }
+
+  /**
+   * Search text files by their content, the vault must be created with the `fullTextSearch` option.
+   *
+   * @param query - The FTS5 query, like "invoice", "invoice AND paid" or '"total amount"'.
+   * @param dir - The directory path (can be an empty array '[]' to search in all directories).
+   * @param filesPerPage - The number of files to retrieve per page. Default is 20.
+   * @param pageNumber - The page number to retrieve. Default is 1.
+   * @returns An object containing the list of files ordered by relevance, each one with a 'snippet' of the matching
+   * content where the matches are wrapped in '<mark>' tags, the current page, total files and a success flag.
+   * If the vault was created without `fullTextSearch`, it returns an error 'FullTextSearchDisabled'.
+   * If the query is not a valid FTS5 query, it returns an error 'InvalidQuery'.
+   */
+  async searchContent(
+    query: string,
+    dir: string[],
+    filesPerPage: number = 20,
+    pageNumber: number = 1,
+  ): Promise<
+    VaultResult<
+      {
+        files: Array<FileInfo & { snippet: string }>;
+        totalFiles: number;
+        currentPage: number;
+      },
+      "FullTextSearchDisabled" | "InvalidQuery"
+    >
+  > {
+    return await this.retryOnBusy(async () => {
+      try {
+        if (this.options.fullTextSearch !== true) {
+          return this.fail("FullTextSearchDisabled");
+        }
+        const skip = pageNumber <= 1 ? 0 : (pageNumber - 1) * filesPerPage;
+
+        const sanitizedPath = this.sanitizePath(dir).join("/");
+        const directory = sanitizedPath === "" ? "" : `/${sanitizedPath}`;
+
+        const countFiles = this.prepare<{ query: string; dir: string }>(
+          `SELECT count(*) as total FROM ${this.table}_fts JOIN ${this.table} ON ${this.table}.name = ${this.table}_fts.name
+      WHERE ${this.table}_fts MATCH :query AND ${isBelow(":dir", `${this.table}.name`)}`,
+        );
+        const files = this.prepare<{
+          query: string;
+          dir: string;
+          skip: typeof skip;
+          filesPerPage: typeof filesPerPage;
+        }>(
+          `SELECT ${this.table}.name as name, mode, mtime, sz, snippet(${this.table}_fts, 1, '<mark>', '</mark>', '...', 16) as snippet
+      FROM ${this.table}_fts JOIN ${this.table} ON ${this.table}.name = ${this.table}_fts.name
+      WHERE ${this.table}_fts MATCH :query AND ${isBelow(":dir", `${this.table}.name`)}
+      ORDER BY rank LIMIT :skip, :filesPerPage`,
+        );
+
+        let transaction;
+        try {
+          transaction = this.db.transaction(() => {
+            const { total } = countFiles.get({ query, dir: directory }) as {
+              total: number;
+            };
+            const filesList = files.all({
+              query,
+              dir: directory,
+              skip,
+              filesPerPage,
+            }) as Array<Omit<SQLarFile, "data"> & { snippet: string }>;
+            return {
+              totalFiles: total,
+              filesList: this.withMetadata(
+                filesList.map((f) => ({
+                  ...f,
+                  fileNameWithPath: f.name,
+                  name: f.name.split("/").at(-1) ?? "",
+                })),
+              ),
+            };
+          })();
+        } catch (error) {
+          if (
+            error instanceof BetterDatabase.SqliteError &&
+            error.code === "SQLITE_ERROR" &&
+            FTS5_QUERY_ERROR.test(error.message)
+          ) {
+            return this.fail("InvalidQuery");
+          }
+          throw error;
+        }
+
+        return {
+          files: transaction.filesList,
+          totalFiles: transaction.totalFiles,
+          currentPage: pageNumber,
+          success: true,
+        };
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
+  }
+
+  /**
+   * Search files by name, extension, content type, size, modified time and tags.
+   *
+   * @param query - The filters, pagination and ordering of the search, every filter is optional.
+   * Example: { dir: ["root"], extension: "pdf", minSize: 10 * 1024 * 1024, modifiedBefore: Date.now() / 1000 - 90 * 24 * 60 * 60 }
+   * | All PDFs over 10 MB in '/root' modified more than 90 days ago.
+   * The pagination and ordering defaults are the same as `listFiles`.
+   * @returns An object containing the list of files, current page, total files and a success flag.
+   */
+  async queryFiles(query: FileQuery) {
+    return await this.retryOnBusy(async () => {
+      try {
+        const {
+          filesPerPage = 20,
+          pageNumber = 1,
+          orderBy = "name",
+          order = "ASC",
+        } = query;
+        const skip = pageNumber <= 1 ? 0 : (pageNumber - 1) * filesPerPage;
+
+        const sanitizedPath = this.sanitizePath(query.dir ?? []).join("/");
+        const conditions = [IS_FILE, isBelow(":dir")];
+        const params: Record<string, string | number> = {
+          dir: sanitizedPath === "" ? "" : `/${sanitizedPath}`,
+        };
+
+        if (query.namePattern !== undefined) {
+          conditions.push(
+            "substr(name, length(rtrim(name, replace(name, '/', ''))) + 1) GLOB :namePattern",
+          );
+          params.namePattern = query.namePattern;
+        }
+        if (query.extension !== undefined) {
+          conditions.push(
+            "lower(substr(name, -length(:extension))) = lower(:extension)",
+          );
+          params.extension = `.${query.extension.replace(/^\./, "")}`;
+        }
+        if (query.contentType !== undefined) {
+          conditions.push(
+            `EXISTS (SELECT 1 FROM ${this.table}_metadata WHERE ${this.table}_metadata.name = ${this.table}.name AND ${this.table}_metadata.contentType = :contentType)`,
+          );
+          params.contentType = query.contentType;
+        }
+        if (query.minSize !== undefined) {
+          conditions.push("sz >= :minSize");
+          params.minSize = query.minSize;
+        }
+        if (query.maxSize !== undefined) {
+          conditions.push("sz <= :maxSize");
+          params.maxSize = query.maxSize;
+        }
+        if (query.modifiedAfter !== undefined) {
+          conditions.push("mtime > :modifiedAfter");
+          params.modifiedAfter = query.modifiedAfter;
+        }
+        if (query.modifiedBefore !== undefined) {
+          conditions.push("mtime < :modifiedBefore");
+          params.modifiedBefore = query.modifiedBefore;
+        }
+        if (query.after !== undefined) {
+          conditions.push("name > :after");
+          params.after = query.after;
+        }
+        Object.entries(query.tags ?? {}).forEach(([key, value], index) => {
+          conditions.push(
+            `EXISTS (SELECT 1 FROM ${this.table}_metadata, json_each(${this.table}_metadata.tags) WHERE ${this.table}_metadata.name = ${this.table}.name AND json_each.key = :tagKey${index} AND json_each.value = :tagValue${index})`,
+          );
+          params[`tagKey${index}`] = key;
+          params[`tagValue${index}`] = value;
+        });
+
+        const where = conditions.join(" AND ");
+        const countFiles = this.prepare<Record<string, string | number>>(
+          `SELECT count(*) as total FROM ${this.table} WHERE ${where}`,
+        );
+        const files = this.prepare<Record<string, string | number>>(
+          `SELECT name, mode, mtime, sz FROM ${this.table} WHERE ${where} ORDER BY ${orderBy} ${order} LIMIT :skip, :filesPerPage`,
+        );
+
+        const transaction = this.db.transaction(() => {
+          const { total } = countFiles.get(params) as {
+            total: number;
+          };
+          const filesList = files.all({
+            ...params,
+            skip,
+            filesPerPage,
+          }) as Array<Omit<SQLarFile, "data">>;
+          return {
+            totalFiles: total,
+            filesList: this.withMetadata(
+              filesList.map((f) => ({
+                ...f,
+                fileNameWithPath: f.name,
+                name: f.name.split("/").at(-1) ?? "",
+              })),
+            ),
+          };
+        })();
 
-    if (this.fileExists(fileNameWithPath)) {
-      return { success: false, error: "FileAlreadyExists" };
+        return {
+          files: transaction.filesList,
+          totalFiles: transaction.totalFiles,
+          currentPage: pageNumber,
+          success: true,
+        };
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
+  }
+
+  /**
+   * Deletes all files from the storage.
+   * In trash mode, every file and directory is moved to the trash as a single entry.
+   * Otherwise, the trash is emptied too.
+   * @returns A promise that resolves to an object indicating the success of the operation.
+   */
+  async deleteAllFiles(): Promise<VaultResult<object, "ReadOnlyVault">> {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
     }
+    try {
+      await this.waitForTransaction();
+      if (this.options.trash === true) {
+        this.db.transaction(() => {
+          const entry = this.prepare(
+            `SELECT name FROM ${this.table} WHERE name LIKE '/%' LIMIT 1`,
+          ).get();
+          if (entry !== undefined) {
+            this.addToTrash("/", true);
+          }
+        })();
+        return { success: true };
+      }
 
-    let fileBuffer: Buffer;
-    if (file instanceof Blob) {
-      fileBuffer = await this.blobToBuffer(file);
-    } else {
-      fileBuffer = file;
+      const deletedFiles = this.prepare(`DELETE FROM ${this.table}`);
+      const deletedBlocks = this.prepare(`DELETE FROM ${this.table}_blocks`);
+      const deletedRefs = this.prepare(`DELETE FROM ${this.table}_refs`);
+      const deletedContents = this.prepare(
+        `DELETE FROM ${this.table}_contents`,
+      );
+      const deletedMetadata = this.prepare(
+        `DELETE FROM ${this.table}_metadata`,
+      );
+      const deletedVersions = this.prepare(
+        `DELETE FROM ${this.table}_versions`,
+      );
+      const deletedTrash = this.prepare(`DELETE FROM ${this.table}_trash`);
+      this.db.transaction(() => {
+        deletedTrash.run();
+        deletedVersions.run();
+        deletedBlocks.run();
+        deletedRefs.run();
+        deletedContents.run();
+        deletedMetadata.run();
+        this.updateIndex(`DELETE FROM ${this.table}_fts`);
+        deletedFiles.run();
+      })();
+      return { success: true };
+    } catch (error) {
+      throw toVaultError(error);
     }
+  }
 
-    this.db
-      .prepare<
-        [
-          SQLarFile["name"],
-          SQLarFile["mode"],
-          SQLarFile["mtime"],
-          SQLarFile["sz"],
-          SQLarFile["data"],
-        ]
-      >(
-        "INSERT INTO sqlar(name,mode,mtime,sz,data) VALUES (?, ?, ?, ?, sqlar_compress(?))",
-      )
-      .run(
-        fileNameWithPath,
-        0o644,
-        modifiedTime,
-        fileBuffer.byteLength,
-        fileBuffer,
+  /**
+   * Deletes the files in the specified directory.
+   *
+   * @param dir - An array of directory names.
+   * Example: ["root", "images"] | Delete all files in the '/root/images' directory.
+   * @param removeDirectories - (optional) Also removes the (now empty) directory entry and its subdirectory entries (Default is false).
+   * In trash mode, the files (and the directory entries when removed) are moved to the trash as a single entry.
+   * @returns An object indicating the success of the operation.
+   * If the directory is empty, it returns an error 'DirectoryAlreadyEmpty'.
+   */
+  async deleteDirectoryFiles(
+    dir: string[],
+    removeDirectories = false,
+  ): Promise<VaultResult<object, "DirectoryAlreadyEmpty" | "ReadOnlyVault">> {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
+    }
+    try {
+      await this.waitForTransaction();
+      const sanitizedPath = this.sanitizePath(dir).join("/");
+      if (sanitizedPath === "") {
+        return this.fail("DirectoryAlreadyEmpty");
+      }
+      const directoryToDelete = `/${sanitizedPath}`;
+      const params = { dir: directoryToDelete };
+
+      const deletedFiles = this.prepare<typeof params>(
+        `DELETE FROM ${this.table} WHERE ${isBelow(":dir")} AND ${IS_FILE}`,
+      );
+      const deletedBlocks = this.prepare<typeof params>(
+        `DELETE FROM ${this.table}_blocks WHERE ${isBelow(":dir")}`,
+      );
+      const deletedDirectories = this.prepare<typeof params>(
+        `DELETE FROM ${this.table} WHERE (${isBelow(":dir")} OR name = :dir) AND ${IS_DIRECTORY}`,
+      );
+
+      const deletedMetadata = this.prepare<typeof params>(
+        `DELETE FROM ${this.table}_metadata WHERE ${isBelow(":dir")}`,
+      );
+      const deletedVersions = this.prepare<typeof params>(
+        `DELETE FROM ${this.table}_versions WHERE ${isBelow(":dir")}`,
+      );
+
+      const countFiles = this.prepare<typeof params>(
+        `SELECT count(*) as total FROM ${this.table} WHERE ${isBelow(":dir")} AND ${IS_FILE}`,
+      );
+      const countDirectories = this.prepare<typeof params>(
+        `SELECT count(*) as total FROM ${this.table} WHERE (${isBelow(":dir")} OR name = :dir) AND ${IS_DIRECTORY}`,
+      );
+
+      const changes = this.db.transaction(() => {
+        if (this.options.trash === true) {
+          let { total } = countFiles.get(params) as {
+            total: number;
+          };
+          if (removeDirectories) {
+            total += (
+              countDirectories.get(params) as {
+                total: number;
+              }
+            ).total;
+          }
+          if (total > 0) {
+            this.addToTrash(directoryToDelete, true, !removeDirectories);
+          }
+          return total;
+        }
+        deletedBlocks.run(params);
+        this.releaseContents(isBelow(":name"), directoryToDelete);
+        deletedMetadata.run(params);
+        deletedVersions.run(params);
+        this.updateIndex(
+          `DELETE FROM ${this.table}_fts WHERE ${isBelow(":dir")}`,
+          params,
+        );
+        let { changes } = deletedFiles.run(params);
+        if (removeDirectories) {
+          changes += deletedDirectories.run(params).changes;
+        }
+        return changes;
+      })();
+      if (changes === 0) {
+        return this.fail("DirectoryAlreadyEmpty");
+      }
+      return { success: true };
+    } catch (error) {
+      throw toVaultError(error);
+    }
+  }
+
+  /**
+   * Retrieves the entries of the trash bin, the most recently deleted first.
+   *
+   * @param entriesPerPage - The number of entries to retrieve per page. Default is 20.
+   * @param pageNumber - The page number to retrieve. Default is 1.
+   * @returns An object containing the list of entries, current page, total entries and a success flag.
+   * Each entry has its 'id', the original path as 'name' ('/' when all files were deleted), 'isDirectory',
+   * 'deletedAt' (in seconds), and the 'totalFiles' and total size 'sz' of its files.
+   */
+  async listTrash(entriesPerPage: number = 20, pageNumber: number = 1) {
+    return await this.retryOnBusy(async () => {
+      try {
+        const skip = pageNumber <= 1 ? 0 : (pageNumber - 1) * entriesPerPage;
+
+        const countEntries = this.prepare(
+          `SELECT count(*) as total FROM ${this.table}_trash`,
+        );
+        const entries = this.prepare<{
+          prefix: string;
+          skip: typeof skip;
+          entriesPerPage: typeof entriesPerPage;
+        }>(
+          `SELECT ${this.table}_trash.*,
+        (SELECT count(*) FROM ${this.table} WHERE ${isBelow(`:prefix || ${this.table}_trash.id`)} AND ${IS_FILE}) as totalFiles,
+        (SELECT coalesce(sum(sz), 0) FROM ${this.table} WHERE ${isBelow(`:prefix || ${this.table}_trash.id`)} AND ${IS_FILE}) as sz
+      FROM ${this.table}_trash ORDER BY deletedAt DESC, id DESC LIMIT :skip, :entriesPerPage`,
+        );
+
+        const transaction = this.db.transaction(() => {
+          const { total } = countEntries.get() as { total: number };
+          const entriesList = entries.all({
+            prefix: TRASH_PREFIX,
+            skip,
+            entriesPerPage,
+          }) as Array<SQLarTrash & { totalFiles: number; sz: number }>;
+          return { totalEntries: total, entriesList };
+        })();
+
+        return {
+          entries: transaction.entriesList,
+          totalEntries: transaction.totalEntries,
+          currentPage: pageNumber,
+          success: true,
+        };
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
+  }
+
+  /**
+   * Restores an entry of the trash bin to its original path, with the metadata and versions of its files.
+   * The missing parent directory entries are created again.
+   *
+   * @param trashId - The id of the trash entry, as returned by `listTrash`.
+   * @returns An object indicating the success of the operation and the restored path.
+   * If the entry is not in the trash, it returns an error 'TrashEntryNotFound'.
+   * If an entry has been stored since at the original path of one of its files, it returns an error 'FileAlreadyExists'
+   * and nothing is restored.
+   */
+  async restoreFromTrash(
+    trashId: number,
+  ): Promise<
+    VaultResult<
+      { name: string },
+      | "TrashEntryNotFound"
+      | "FileAlreadyExists"
+      | "QuotaExceeded"
+      | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
+    }
+    try {
+      await this.waitForTransaction();
+      const trashEntry = this.prepare<SQLarTrash["id"]>(
+        `SELECT * FROM ${this.table}_trash WHERE id = ?`,
+      );
+      const countConflicts = this.prepare<{ trashedName: string }>(
+        `SELECT count(*) as total FROM ${this.table} AS trashed
+      WHERE ${isBelow(":trashedName", "trashed.name")} AND ${IS_FILE}
+        AND substr(trashed.name, length(:trashedName) + 1) IN (SELECT name FROM ${this.table})`,
+      );
+      const deletedExistingDirectories = this.prepare<{
+        trashedName: string;
+      }>(
+        `DELETE FROM ${this.table} WHERE ${isBelow(":trashedName")} AND ${IS_DIRECTORY}
+        AND substr(name, length(:trashedName) + 1) IN (SELECT name FROM ${this.table})`,
       );
+      const deletedTrashEntry = this.prepare<SQLarTrash["id"]>(
+        `DELETE FROM ${this.table}_trash WHERE id = ?`,
+      );
+
+      const transaction = this.db.transaction(() => {
+        const entry = trashEntry.get(trashId) as SQLarTrash | undefined;
+        if (entry === undefined) {
+          return this.fail("TrashEntryNotFound");
+        }
+        const name = entry.name === "/" ? "" : entry.name;
+        const trashedName = `${TRASH_PREFIX}${entry.id}`;
+
+        const { total } = countConflicts.get({ trashedName }) as {
+          total: number;
+        };
+        if (total > 0) {
+          return this.fail("FileAlreadyExists");
+        }
+
+        deletedExistingDirectories.run({ trashedName });
+        this.createDirectoryEntries(this.parentDirectory(name));
+        this.moveEntries(this.trashedName(entry), name);
+        this.checkQuotas(entry.name);
+        deletedTrashEntry.run(entry.id);
+
+        return { success: true as const, name: entry.name };
+      })();
+
+      return transaction;
+    } catch (error) {
+      if (this.isQuotaError(error)) {
+        return this.fail("QuotaExceeded");
+      }
+      throw toVaultError(error);
+    }
+  }
+
+  /**
+   * Permanently removes the entries of the trash bin.
+   *
+   * @param olderThanSeconds - (optional) Only removes the entries deleted more than this number of seconds ago
+   * (Default is all entries).
+   * Example: 30 * 24 * 60 * 60 | Remove the entries deleted more than 30 days ago.
+   * @returns An object indicating the success of the operation and the number of removed entries.
+   */
+  async emptyTrash(
+    olderThanSeconds?: number,
+  ): Promise<VaultResult<{ deletedEntries: number }, "ReadOnlyVault">> {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
+    }
+    try {
+      await this.waitForTransaction();
+      const expiredEntries = this.prepare<SQLarTrash["deletedAt"]>(
+        `SELECT id FROM ${this.table}_trash WHERE deletedAt <= ?`,
+      );
+
+      const deletedEntries = this.db.transaction(() => {
+        const entries = expiredEntries.all(
+          olderThanSeconds === undefined
+            ? Number.MAX_SAFE_INTEGER
+            : Math.round(Date.now() / 1000) - olderThanSeconds,
+        ) as Array<Pick<SQLarTrash, "id">>;
+        entries.forEach(({ id }) => {
+          this.purgeTrash(id);
+        });
+        return entries.length;
+      })();
 
-    return { success: true, fileName, fileNameWithPath };
+      return { success: true, deletedEntries };
+    } catch (error) {
+      throw toVaultError(error);
+    }
   }
 
   /**
-   * Renames a file in the storage.
-   * @param dir - The directory path of the file.
-   * @param fileName - The current name of the file.
-   * @param newFileName - The new name for the file.
-   * @param newDir - The new directory path for the file (optional).
-   * @returns An object indicating the success of the operation and the updated file information.
+   * Creates a directory entry, including the entries of its parent directories.
+   *
+   * @param dir - An array of directory names.
+   * Example: ["root", "images"] | Create the '/root/images' directory.
+   * @returns An object indicating the success of the operation and the directory path.
+   * If the directory already exists, it returns an error 'DirectoryAlreadyExists'.
+   * If a file with the same path exists, it returns an error 'FileAlreadyExists'.
    */
-  async renameFile(
+  async createDirectory(
     dir: string[],
-    fileName: string,
-    newFileName: string,
-    newDir?: string[],
-  ) {
-    const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
-    const newFileNameWithPath = this.createFileNameWithPath(
-      newDir ?? dir,
-      newFileName,
-    );
-    const fileExists = this.db.prepare<SQLarFile["name"]>(
-      "SELECT name FROM sqlar WHERE name = ?",
-    );
+  ): Promise<
+    VaultResult<
+      { directoryWithPath: string },
+      | "InvalidPath"
+      | "FileAlreadyExists"
+      | "DirectoryAlreadyExists"
+      | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
+    }
+    try {
+      await this.waitForTransaction();
+      const sanitizedPath = this.sanitizePath(dir).join("/");
+      if (sanitizedPath === "") {
+        return this.fail("InvalidPath");
+      }
+      const directoryWithPath = `/${sanitizedPath}`;
 
-    const updatedFile = this.db.prepare<
-      [SQLarFile["name"], SQLarFile["mtime"], SQLarFile["name"]]
-    >("UPDATE sqlar SET name = ?, mtime = ? WHERE name = ?");
+      if (this.fileExists(directoryWithPath)) {
+        return this.fail("FileAlreadyExists");
+      }
+      if (this.entryExists(directoryWithPath)) {
+        return this.fail("DirectoryAlreadyExists");
+      }
 
-    const transaction = this.db.transaction(() => {
-      const file = fileExists.get(newFileNameWithPath) as SQLarFile | undefined;
+      this.db.transaction(() => {
+        this.createDirectoryEntries(directoryWithPath);
+      })();
 
-      if (file !== undefined && fileNameWithPath !== newFileNameWithPath) {
-        return { success: false, error: "FileAlreadyExists" };
-      }
+      return { success: true, directoryWithPath };
+    } catch (error) {
+      throw toVaultError(error);
+    }
+  }
 
-      updatedFile.run(
-        newFileNameWithPath,
-        Math.round(Date.now() / 1000),
-        fileNameWithPath,
-      );
+  /**
+   * Retrieves the immediate subdirectories of the specified directory.
+   * Directories that only exist as a prefix of stored files are listed too.
+   *
+   * @param dir - The directory path (can be an empty array '[]' to list the top-level directories).
+   * Example: ["root"] | List the directories in '/root', like '/root/images'.
+   * @returns An object containing the list of directories ordered by name and a success flag.
+   */
+  async listDirectories(dir: string[]) {
+    return await this.retryOnBusy(async () => {
+      try {
+        const sanitizedPath = this.sanitizePath(dir).join("/");
+        const parentPath = sanitizedPath === "" ? "/" : `/${sanitizedPath}/`;
 
-      return { success: true, newFileName, newFileNameWithPath };
-    })();
+        const directories = this.prepare<{ dir: string }>(
+          `SELECT DISTINCT CASE WHEN instr(rest, '/') > 0 THEN substr(rest, 1, instr(rest, '/') - 1) ELSE rest END as name
+        FROM (SELECT substr(name, length(:dir) + 2) as rest, mode FROM ${this.table} WHERE ${isBelow(":dir")})
+        WHERE instr(rest, '/') > 0 OR ${IS_DIRECTORY}
+        ORDER BY name`,
+        ).all({
+          dir: parentPath.slice(0, -1),
+        }) as Array<Pick<SQLarFile, "name">>;
 
-    return transaction;
+        return {
+          directories: directories.map(({ name }) => ({
+            name,
+            directoryWithPath: `${parentPath}${name}`,
+          })),
+          success: true,
+        };
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
   }
 
   /**
-   * Updates the content of a file in the file storage.
-   * @param dir - The directory path where the file is located.
-   * @param fileName - The name of the file.
-   * @param newContent - The new content of the file as a Blob or Buffer.
-   * @param modifiedTime - (optional) The modified time of the file in seconds (Default is Date.now() / 1000).
-   * @returns An object indicating the success of the update operation and the updated file information.
+   * Retrieves the totals of a directory, which exists when it has a directory entry or any file below it.
+   *
+   * @param dir - The directory path (can be an empty array '[]' for the root directory, which always exists).
+   * Example: ["root", "images"]
+   * @returns An object containing the success status and the directory, with the total files, total size
+   * and latest mtime of everything below it.
+   * If the directory does not exist, it returns an error 'DirectoryNotFound'.
    */
-  async updateFileContent(
+  async statDirectory(
     dir: string[],
-    fileName: string,
-    newContent: Blob | Buffer,
-    modifiedTime: number = Math.round(Date.now() / 1000),
-  ) {
-    const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+  ): Promise<VaultResult<{ directory: DirectoryInfo }, "DirectoryNotFound">> {
+    return await this.retryOnBusy(async () => {
+      try {
+        const sanitizedPath = this.sanitizePath(dir).join("/");
+        const directory = this.prepare<{ dir: string }>(
+          `SELECT
+          count(*) as totalEntries,
+          coalesce(sum(CASE WHEN ${IS_FILE} THEN 1 ELSE 0 END), 0) as totalFiles,
+          coalesce(sum(CASE WHEN ${IS_FILE} THEN sz ELSE 0 END), 0) as sz,
+          coalesce(max(mtime), 0) as mtime
+        FROM ${this.table} WHERE ${isBelow(":dir")} OR (name = :dir AND ${IS_DIRECTORY})`,
+        ).get({
+          dir: sanitizedPath === "" ? "" : `/${sanitizedPath}`,
+        }) as {
+          totalEntries: number;
+          totalFiles: number;
+          sz: number;
+          mtime: number;
+        };
 
-    if (!this.fileExists(fileNameWithPath)) {
-      return { success: false, error: "FileNotFound" };
-    }
+        if (sanitizedPath !== "" && directory.totalEntries === 0) {
+          return this.fail("DirectoryNotFound");
+        }
+        return {
+          success: true,
+          directory: {
+            name: sanitizedPath.split("/").at(-1) ?? "",
+            mode: S_IFDIR | 0o755,
+            mtime: directory.mtime,
+            sz: directory.sz,
+            totalFiles: directory.totalFiles,
+            directoryWithPath: `/${sanitizedPath}`,
+          },
+        };
+      } catch (error) {
+        throw toVaultError(error);
+      }
+    });
+  }
 
-    let fileBuffer: Buffer;
-    if (newContent instanceof Blob) {
-      fileBuffer = await this.blobToBuffer(newContent);
-    } else {
-      fileBuffer = newContent;
+  /**
+   * Renames (or moves) a directory, including all of its files and subdirectories, in a single transaction.
+   *
+   * @param dir - An array of directory names.
+   * Example: ["root", "images"]
+   * @param newDir - The new directory path.
+   * Example: ["root", "pictures"] | Move every entry in '/root/images' to '/root/pictures'.
+   * @returns An object indicating the success of the operation and the new directory path.
+   * If the directory has no entries, it returns an error 'DirectoryNotFound'.
+   * If the new directory already has entries, it returns an error 'DirectoryAlreadyExists'.
+   */
+  async renameDirectory(
+    dir: string[],
+    newDir: string[],
+  ): Promise<
+    VaultResult<
+      { newDirectoryWithPath: string },
+      | "InvalidPath"
+      | "DirectoryNotFound"
+      | "DirectoryAlreadyExists"
+      | "QuotaExceeded"
+      | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
     }
+    try {
+      await this.waitForTransaction();
+      const sanitizedPath = this.sanitizePath(dir).join("/");
+      const newSanitizedPath = this.sanitizePath(newDir).join("/");
+      const directoryWithPath = `/${sanitizedPath}`;
+      const newDirectoryWithPath = `/${newSanitizedPath}`;
 
-    this.db
-      .prepare<
-        [
-          SQLarFile["mtime"],
-          SQLarFile["sz"],
-          SQLarFile["data"],
-          SQLarFile["name"],
-        ]
-      >(
-        "UPDATE sqlar SET mtime = ?, sz = ?, data = sqlar_compress(?) WHERE name = ?",
-      )
-      .run(modifiedTime, fileBuffer.byteLength, fileBuffer, fileNameWithPath);
+      const countEntries = this.prepare<{ name: SQLarFile["name"] }>(
+        `SELECT count(*) as total FROM ${this.table} WHERE name = :name OR ${isBelow(":name")}`,
+      );
+      const transaction = this.db.transaction(() => {
+        if (
+          sanitizedPath === "" ||
+          newSanitizedPath === "" ||
+          `${newSanitizedPath}/`.startsWith(`${sanitizedPath}/`)
+        ) {
+          return this.fail("InvalidPath");
+        }
+        const { total } = countEntries.get({ name: directoryWithPath }) as {
+          total: number;
+        };
+        if (total === 0) {
+          return this.fail("DirectoryNotFound");
+        }
+        const { total: totalInNewDirectory } = countEntries.get({
+          name: newDirectoryWithPath,
+        }) as { total: number };
+        if (totalInNewDirectory > 0) {
+          return this.fail("DirectoryAlreadyExists");
+        }
 
-    return { success: true, fileName, fileNameWithPath };
-  }
+        this.createDirectoryEntries(this.parentDirectory(newDirectoryWithPath));
+        this.moveEntries(directoryWithPath, newDirectoryWithPath);
+        this.checkQuotas(newDirectoryWithPath);
 
-  /**
-   * Retrieves a file from the storage based on the specified directory and file name.
-   * @param dir - The directory path of the file.
-   * Example: ["root", "images", "profile"]
-   * @param fileName - The name of the file.
-   * Example: "profile.jpeg"
-   * @returns A promise that resolves to an object containing the success status and the retrieved file, if successful.
-   * If the file is not found, it returns an error 'FileNotFound'.
-   */
-  async retrieveFile(dir: string[], fileName: string) {
-    const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
-    const file = this.db
-      .prepare<SQLarFile["name"]>(
-        "SELECT name, mode, mtime, sqlar_uncompress(data,sz) as data, sz FROM sqlar WHERE name = ?",
-      )
-      .get(fileNameWithPath) as SQLarFile | undefined;
-    if (file === undefined) {
-      return { success: false, error: "FileNotFound" };
+        return { success: true as const, newDirectoryWithPath };
+      })();
+
+      return transaction;
+    } catch (error) {
+      if (this.isQuotaError(error)) {
+        return this.fail("QuotaExceeded");
+      }
+      throw toVaultError(error);
     }
-    return {
-      success: true,
-      file: {
-        fileNameWithPath: file.name,
-        name: fileName,
-        mode: file.mode,
-        mtime: file.mtime,
-        data: file.data,
-        sz: file.sz,
-      },
-    };
   }
 
   /**
-   * Deletes a file from the storage.
-   * @param dir - The directory path where the file is located.
-   * Example: ["root", "images", "profile"]
-   * @param fileName - The name of the file to be deleted.
-   * Example: "profile.jpeg"
-   * @returns An object indicating the success of the operation.
-   * If the file is not found, it returns an error 'FileNotFound'.
+   * Copies a directory, including all of its files (with their metadata) and subdirectories, in a single transaction.
+   * The contents are copied as stored in the database, without reading them.
+   *
+   * @param dir - An array of directory names.
+   * Example: ["root", "images"]
+   * @param newDir - The directory path of the copy.
+   * Example: ["root", "pictures"] | Copy every entry in '/root/images' to '/root/pictures'.
+   * @param options - (optional) With `overwrite`, the copy is merged into an existing directory and replaces
+   * the files at the same paths, keeping their previous content as a version (Default is false).
+   * @returns An object indicating the success of the operation, the new directory path and the total of copied files.
+   * If the directory has no entries, it returns an error 'DirectoryNotFound'.
+   * If the new directory already has entries, it returns an error 'DirectoryAlreadyExists', unless `overwrite` is set.
+   * With `overwrite`, a file copied over a directory fails with an error 'DirectoryAlreadyExists'
+   * and a directory copied over a file with an error 'FileAlreadyExists'.
    */
-  async deleteFile(dir: string[], fileName: string) {
-    const fileNameWithPath = this.createFileNameWithPath(dir, fileName);
+  async copyDirectory(
+    dir: string[],
+    newDir: string[],
+    options: { overwrite?: boolean } = {},
+  ): Promise<
+    VaultResult<
+      { newDirectoryWithPath: string; totalFiles: number },
+      | "InvalidPath"
+      | "DirectoryNotFound"
+      | "DirectoryAlreadyExists"
+      | "FileAlreadyExists"
+      | "QuotaExceeded"
+      | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
+    }
+    try {
+      await this.waitForTransaction();
+      const sanitizedPath = this.sanitizePath(dir).join("/");
+      const newSanitizedPath = this.sanitizePath(newDir).join("/");
+      const directoryWithPath = `/${sanitizedPath}`;
+      const newDirectoryWithPath = `/${newSanitizedPath}`;
+
+      const countEntries = this.prepare<{ name: SQLarFile["name"] }>(
+        `SELECT count(*) as total FROM ${this.table} WHERE name = :name OR ${isBelow(":name")}`,
+      );
+      const conflicts = this.prepare<{ from: string; to: string }>(
+        `SELECT target.name as name, (source.mode & ${S_IFMT}) = ${S_IFDIR} as sourceIsDirectory,
+        (target.mode & ${S_IFMT}) = ${S_IFDIR} as targetIsDirectory
+        FROM ${this.table} source JOIN ${this.table} target ON target.name = :to || substr(source.name, length(:from) + 1)
+        WHERE source.name = :from OR ${isBelow(":from", "source.name")}`,
+      );
+      return this.db.transaction(() => {
+        if (
+          sanitizedPath === "" ||
+          newSanitizedPath === "" ||
+          `${newSanitizedPath}/`.startsWith(`${sanitizedPath}/`) ||
+          `${sanitizedPath}/`.startsWith(`${newSanitizedPath}/`)
+        ) {
+          return this.fail("InvalidPath");
+        }
+        const { total } = countEntries.get({ name: directoryWithPath }) as {
+          total: number;
+        };
+        if (total === 0) {
+          return this.fail("DirectoryNotFound");
+        }
+        const { total: totalInNewDirectory } = countEntries.get({
+          name: newDirectoryWithPath,
+        }) as { total: number };
+        if (totalInNewDirectory > 0 && options.overwrite !== true) {
+          return this.fail("DirectoryAlreadyExists");
+        }
+
+        const existing = conflicts.all({
+          from: directoryWithPath,
+          to: newDirectoryWithPath,
+        }) as Array<{
+          name: string;
+          sourceIsDirectory: 0 | 1;
+          targetIsDirectory: 0 | 1;
+        }>;
+        for (const entry of existing) {
+          if (entry.sourceIsDirectory !== entry.targetIsDirectory) {
+            return this.fail(
+              entry.targetIsDirectory === 1
+                ? "DirectoryAlreadyExists"
+                : "FileAlreadyExists",
+            );
+          }
+        }
+        existing
+          .filter((entry) => entry.targetIsDirectory === 0)
+          .forEach((entry) => {
+            this.archiveVersion(entry.name);
+            this.deleteFileRows(entry.name, true);
+          });
 
-    const result = this.db
-      .prepare<SQLarFile["name"]>("DELETE FROM sqlar WHERE name = ?")
-      .run(fileNameWithPath);
+        const totalFiles = this.copyEntries(
+          directoryWithPath,
+          newDirectoryWithPath,
+        );
+        this.createDirectoryEntries(newDirectoryWithPath);
 
-    if (result.changes === 0) {
-      return { success: false, error: "FileNotFound" };
+        return { success: true as const, newDirectoryWithPath, totalFiles };
+      })();
+    } catch (error) {
+      if (this.isQuotaError(error)) {
+        return this.fail("QuotaExceeded");
+      }
+      throw toVaultError(error);
     }
-    return {
-      success: true,
-    };
   }
 
   /**
-   * Retrieves a list of files from the specified directory.
+   * Imports the files and subdirectories of a local directory, keeping their modified time and mode.
+   * The entries are stored in transactions of up to 100 entries (or 64 MiB), so a database error only rolls back the current batch.
    *
-   * @param dir - The directory path.
-   * @param filesPerPage - The number of files to retrieve per page. Default is 20.
-   * @param pageNumber - The page number to retrieve. Default is 1.
-   * @param orderBy - The field to order the files by. Valid values are "name", "mtime", or "sz". Default is "name".
-   * @param order - The order in which to sort the files. Valid values are "ASC" or "DESC". Default is "ASC".
-   * @returns An object containing the list of files, current page, total files and a success flag.
+   * @param localPath - The path of the local directory.
+   * Example: "/var/www/uploads"
+   * @param targetDir - The directory path in the vault where the contents are imported.
+   * Example: ["root", "uploads"] | '/var/www/uploads/2024/a.pdf' is stored as '/root/uploads/2024/a.pdf'.
+   * @param options - (optional) Whether to overwrite existing files and a filter of the entries to import.
+   * @returns An object containing the result of each file, the total imported and failed files, and a success flag.
+   * A file that already exists fails with an error 'FileAlreadyExists', unless `overwrite` is set.
+   * A file that exceeds a quota fails with an error 'QuotaExceeded'.
+   * A file that can not be read fails with an error 'ReadFailed'.
+   * If the local directory does not exist, it returns an error 'DirectoryNotFound'.
    */
-  async listFiles(
-    dir: string[],
-    filesPerPage: number = 20,
-    pageNumber: number = 1,
-    orderBy: "name" | "mtime" | "sz" = "name",
-    order: "ASC" | "DESC" = "ASC",
-  ) {
-    const skip = pageNumber <= 1 ? 0 : (pageNumber - 1) * filesPerPage;
+  async importDirectory(
+    localPath: string,
+    targetDir: string[],
+    options: ImportOptions = {},
+  ): Promise<
+    VaultResult<
+      { files: TransferResult[]; totalImported: number; totalFailed: number },
+      "DirectoryNotFound" | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
+    }
+    try {
+      const root = path.resolve(localPath);
+      const rootStats = await fs.promises.stat(root).catch(() => undefined);
+      if (rootStats?.isDirectory() !== true) {
+        return this.fail("DirectoryNotFound");
+      }
 
-    const sanitizedPath = this.sanitizePath(dir).join("/");
-    const countFiles = this.db.prepare<SQLarFile["name"]>(
-      "SELECT count(*) as total FROM sqlar WHERE name LIKE ?",
-    );
-    const files = this.db.prepare<{
-      name: SQLarFile["name"];
-      skip: typeof skip;
-      filesPerPage: typeof filesPerPage;
-    }>(
-      `SELECT name, mode, mtime, sz FROM sqlar WHERE name LIKE :name ORDER BY ${orderBy} ${order} LIMIT :skip, :filesPerPage`,
-    );
+      const updatedMode = this.prepare<[SQLarFile["mode"], SQLarFile["name"]]>(
+        `UPDATE ${this.table} SET mode = ? WHERE name = ?`,
+      );
 
-    const transaction = this.db.transaction(() => {
-      const { total } = countFiles.get(`/${sanitizedPath}/%`) as {
-        total: number;
+      const results: TransferResult[] = [];
+      let batch: Array<{
+        result: TransferResult;
+        stats: Stats;
+        content?: Buffer;
+      }> = [];
+      let batchBytes = 0;
+
+      const storeBatch = async () => {
+        await this.waitForTransaction();
+        this.db.transaction(() => {
+          batch.forEach(({ result, stats, content }) => {
+            const modifiedTime = Math.round(stats.mtimeMs / 1000);
+            if (content === undefined) {
+              this.createDirectoryEntries(
+                result.fileNameWithPath,
+                modifiedTime,
+              );
+              return;
+            }
+            const exists = this.entryExists(result.fileNameWithPath);
+            if (
+              exists &&
+              (options.overwrite !== true ||
+                !this.fileExists(result.fileNameWithPath))
+            ) {
+              result.success = false;
+              result.error = "FileAlreadyExists";
+              return;
+            }
+            try {
+              this.db.transaction(() => {
+                if (!exists) {
+                  this.insertFile(
+                    result.fileNameWithPath,
+                    content,
+                    modifiedTime,
+                    {},
+                    stats.mode,
+                    options.compression,
+                  );
+                  return;
+                }
+                this.replaceContent(
+                  result.fileNameWithPath,
+                  content,
+                  modifiedTime,
+                  null,
+                  options.compression,
+                );
+                updatedMode.run(stats.mode, result.fileNameWithPath);
+              })();
+            } catch (error) {
+              if (!this.isQuotaError(error)) {
+                throw error;
+              }
+              result.success = false;
+              result.error = "QuotaExceeded";
+            }
+          });
+        })();
+        batch = [];
+        batchBytes = 0;
       };
-      const filesList = files.all({
-        name: `/${sanitizedPath}/%`,
-        skip,
-        filesPerPage,
-      }) as Array<Omit<SQLarFile, "data">>;
+
+      const skippedDirectories: string[] = [];
+      for await (const { relativePath, stats } of this.walkDirectory(root)) {
+        const relativeName = relativePath.join("/");
+        if (
+          skippedDirectories.some((dir) =>
+            relativeName.startsWith(`${dir}/`),
+          ) ||
+          (options.filter !== undefined && !options.filter(relativeName, stats))
+        ) {
+          if (stats.isDirectory()) {
+            skippedDirectories.push(relativeName);
+          }
+          continue;
+        }
+
+        const localFilePath = path.join(root, ...relativePath);
+        if (stats.isDirectory()) {
+          batch.push({
+            result: {
+              path: localFilePath,
+              fileNameWithPath: `/${this.sanitizePath([...targetDir, ...relativePath]).join("/")}`,
+              success: true,
+            },
+            stats,
+          });
+        } else {
+          const fileNameWithPath = this.createFileNameWithPath(
+            [...targetDir, ...relativePath.slice(0, -1)],
+            relativePath[relativePath.length - 1],
+          );
+          const result: TransferResult = {
+            path: localFilePath,
+            fileNameWithPath,
+            success: true,
+          };
+          results.push(result);
+          try {
+            const content = await fs.promises.readFile(localFilePath);
+            batch.push({ result, stats, content });
+            batchBytes += content.byteLength;
+          } catch {
+            result.success = false;
+            result.error = "ReadFailed";
+          }
+        }
+
+        if (
+          batch.length >= TRANSFER_BATCH_SIZE ||
+          batchBytes >= TRANSFER_BATCH_BYTES
+        ) {
+          await storeBatch();
+        }
+      }
+      await storeBatch();
+
+      const totalFailed = results.filter((result) => !result.success).length;
       return {
-        totalFiles: total,
-        filesList: filesList.map((f) => ({
-          ...f,
-          fileNameWithPath: f.name,
-          name: f.name.split("/").at(-1),
-        })),
+        files: results,
+        totalImported: results.length - totalFailed,
+        totalFailed,
+        success: true,
       };
-    })();
-
-    return {
-      files: transaction.filesList,
-      totalFiles: transaction.totalFiles,
-      currentPage: pageNumber,
-      success: true,
-    };
+    } catch (error) {
+      throw toVaultError(error);
+    }
   }
 
   /**
-   * Search files in the specified directory, if an empty array is provided, it will search in all directories.
+   * Exports the files and subdirectories of a directory to a local directory, keeping their modified time and mode.
+   * The local directory and its subdirectories are created when missing, and existing local files are replaced.
    *
-   * @param fileName - The file name.
-   * @param dir - The directory path (can be and empty array '[]' to search in all directories).
-   * @param filesPerPage - The number of files to retrieve per page. Default is 20.
-   * @param pageNumber - The page number to retrieve. Default is 1.
-   * @param orderBy - The field to order the files by. Valid values are "name", "mtime", or "sz". Default is "name".
-   * @param order - The order in which to sort the files. Valid values are "ASC" or "DESC". Default is "ASC".
-   * @returns An object containing the list of files, current page, total files and a success flag.
+   * @param dir - The directory path in the vault (can be an empty array '[]' to export every file).
+   * Example: ["root", "uploads"]
+   * @param localPath - The path of the local directory.
+   * Example: "/var/backups/uploads" | '/root/uploads/2024/a.pdf' is written to '/var/backups/uploads/2024/a.pdf'.
+   * @returns An object containing the result of each file, the total exported and failed files, and a success flag.
+   * A file whose path would be outside of the local directory fails with an error 'InvalidPath'.
+   * A file that can not be written fails with an error 'WriteFailed', or 'DecryptionFailed' when its content has been tampered with.
    */
-  async searchFiles(
-    fileName: string,
-    dir: string[],
-    filesPerPage: number = 20,
-    pageNumber: number = 1,
-    orderBy: "name" | "mtime" | "sz" = "name",
-    order: "ASC" | "DESC" = "ASC",
-  ) {
-    const skip = pageNumber <= 1 ? 0 : (pageNumber - 1) * filesPerPage;
+  async exportDirectory(dir: string[], localPath: string) {
+    try {
+      const sanitizedPath = this.sanitizePath(dir).join("/");
+      const parentPath = sanitizedPath === "" ? "/" : `/${sanitizedPath}/`;
+      const root = path.resolve(localPath);
 
-    let sanitizedPath = this.sanitizePath(dir).join("/");
-    if (sanitizedPath === "") {
-      sanitizedPath = "%";
-    } else {
-      sanitizedPath = `/${sanitizedPath}/%`;
-    }
+      await fs.promises.mkdir(root, { recursive: true });
 
-    const countFiles = this.db.prepare<SQLarFile["name"]>(
-      "SELECT count(*) as total FROM sqlar WHERE name LIKE ?",
-    );
-    const files = this.db.prepare<{
-      name: SQLarFile["name"];
-      skip: typeof skip;
-      filesPerPage: typeof filesPerPage;
-    }>(
-      `SELECT name, mode, mtime, sz FROM sqlar WHERE name LIKE :name ORDER BY ${orderBy} ${order} LIMIT :skip, :filesPerPage`,
-    );
+      const results: TransferResult[] = [];
+      for await (const entry of this.listEntries(parentPath)) {
+        const localFilePath = path.resolve(
+          root,
+          ...entry.name.slice(parentPath.length).split("/"),
+        );
+        const isDirectory = (entry.mode & S_IFMT) === S_IFDIR;
+        const result: TransferResult = {
+          path: localFilePath,
+          fileNameWithPath: entry.name,
+          success: true,
+        };
+        if (!localFilePath.startsWith(`${root}${path.sep}`)) {
+          if (!isDirectory) {
+            results.push({ ...result, success: false, error: "InvalidPath" });
+          }
+          continue;
+        }
+        if (isDirectory) {
+          await fs.promises.mkdir(localFilePath, { recursive: true });
+          continue;
+        }
 
-    const transaction = this.db.transaction(() => {
-      const { total } = countFiles.get(`${sanitizedPath}${fileName}%`) as {
-        total: number;
-      };
-      const filesList = files.all({
-        name: `${sanitizedPath}${fileName}%`,
-        skip,
-        filesPerPage,
-      }) as Array<Omit<SQLarFile, "data">>;
+        results.push(result);
+        try {
+          await fs.promises.mkdir(path.dirname(localFilePath), {
+            recursive: true,
+          });
+          await pipeline(
+            Readable.from(this.readContent(entry.name, 0)),
+            fs.createWriteStream(localFilePath),
+          );
+          if ((entry.mode & 0o777) !== 0) {
+            await fs.promises.chmod(localFilePath, entry.mode & 0o777);
+          }
+          await fs.promises.utimes(localFilePath, entry.mtime, entry.mtime);
+        } catch (error) {
+          result.success = false;
+          result.error = this.isDecryptionError(error)
+            ? "DecryptionFailed"
+            : "WriteFailed";
+        }
+      }
+
+      const totalFailed = results.filter((result) => !result.success).length;
       return {
-        totalFiles: total,
-        filesList: filesList.map((f) => ({
-          ...f,
-          fileNameWithPath: f.name,
-          name: f.name.split("/").at(-1),
-        })),
+        files: results,
+        totalExported: results.length - totalFailed,
+        totalFailed,
+        success: true,
       };
-    })();
-
-    return {
-      files: transaction.filesList,
-      totalFiles: transaction.totalFiles,
-      currentPage: pageNumber,
-      success: true,
-    };
+    } catch (error) {
+      throw toVaultError(error);
+    }
   }
 
   /**
-   * Deletes all files from the storage.
-   * @returns A promise that resolves to an object indicating the success of the operation.
+   * Creates a readable stream of a zip or tar archive with the files and subdirectories of a directory.
+   * The archive is produced while it is read, so large directories are never loaded into memory.
+   *
+   * @param dir - The directory path (can be an empty array '[]' to archive every file).
+   * Example: ["root", "uploads"] | '/root/uploads/2024/a.pdf' is archived as '2024/a.pdf'.
+   * @param format - The format of the archive, "zip" (deflated) or "tar" (uncompressed).
+   * @returns A readable stream of the archive.
+   * If the content of a file can not be read, the stream is destroyed with the error, like 'DecryptionFailed'.
    */
-  async deleteAllFiles() {
-    this.db.prepare("DELETE FROM sqlar").run();
-    return { success: true };
+  exportArchive(dir: string[], format: ArchiveFormat): Readable {
+    const sanitizedPath = this.sanitizePath(dir).join("/");
+    const parentPath = sanitizedPath === "" ? "/" : `/${sanitizedPath}/`;
+    const entries = this.archiveEntries(parentPath);
+    return Readable.from(
+      withVaultErrors(
+        format === "zip"
+          ? createZipArchive(entries)
+          : createTarArchive(entries),
+      ),
+    );
   }
 
   /**
-   * Deletes the files in the specified directory.
+   * Imports the files and directories of a zip or tar archive read from a stream, each file is stored
+   * in blocks while it is unpacked like with `createWriteStream`.
+   * The entry paths are sanitized like the directory paths of the other methods.
    *
-   * @param dir - An array of directory names.
-   * Example: ["root", "images"] | Delete all files in the '/root/images' directory.
-   * @returns An object indicating the success of the operation.
-   * If the directory is empty, it returns an error 'DirectoryAlreadyEmpty'.
+   * @param source - The stream of the archive.
+   * Example: fs.createReadStream("uploads.tar")
+   * @param targetDir - The directory path in the vault where the entries are unpacked.
+   * Example: ["root", "uploads"] | The entry '2024/a.pdf' is stored as '/root/uploads/2024/a.pdf'.
+   * @param format - The format of the archive, "zip" or "tar".
+   * @returns An object containing the result of each file, the total imported and failed files, and a success flag.
+   * An entry with an absolute path or a '..' segment fails with an error 'InvalidPath' and is not unpacked.
+   * A file that already exists fails with an error 'FileAlreadyExists'.
+   * A file that exceeds a quota fails with an error 'QuotaExceeded'.
+   * If the archive is malformed, it returns an error 'InvalidArchive' along with the files imported so far,
+   * or 'UnsupportedArchive' when a zip entry uses another compression method than deflate.
    */
-  async deleteDirectoryFiles(dir: string[]) {
-    const sanitizedPath = this.sanitizePath(dir).join("/");
-    if (sanitizedPath === "") {
+  async importArchive(
+    source: AsyncIterable<Buffer | string>,
+    targetDir: string[],
+    format: ArchiveFormat,
+  ): Promise<
+    | VaultSuccess<{
+        files: TransferResult[];
+        totalImported: number;
+        totalFailed: number;
+      }>
+    | VaultFailure<
+        "InvalidArchive" | "UnsupportedArchive" | "ReadOnlyVault",
+        {
+          files: TransferResult[];
+          totalImported?: undefined;
+          totalFailed?: undefined;
+        }
+      >
+  > {
+    if (this.readonly) {
+      return { ...this.fail("ReadOnlyVault"), files: [] };
+    }
+    try {
+      const updatedMode = this.prepare<[SQLarFile["mode"], SQLarFile["name"]]>(
+        `UPDATE ${this.table} SET mode = ? WHERE name = ?`,
+      );
+
+      const results: TransferResult[] = [];
+      try {
+        const entries =
+          format === "zip" ? readZipArchive(source) : readTarArchive(source);
+        for await (const entry of entries) {
+          await this.waitForTransaction();
+          const segments = entry.path
+            .split(/[\\/]/)
+            .filter((segment) => segment !== "" && segment !== ".");
+          const invalidPath =
+            segments.length === 0 ||
+            segments.includes("..") ||
+            /^([\\/]|[a-zA-Z]:)/.test(entry.path);
+
+          if (entry.isDirectory) {
+            if (!invalidPath) {
+              this.db.transaction(() => {
+                this.createDirectoryEntries(
+                  `/${this.sanitizePath([...targetDir, ...segments]).join("/")}`,
+                  entry.mtime,
+                );
+              })();
+            }
+            continue;
+          }
+
+          const dir = [...targetDir, ...segments.slice(0, -1)];
+          const fileName = segments[segments.length - 1] ?? "";
+          const result: TransferResult = {
+            path: entry.path,
+            fileNameWithPath: invalidPath
+              ? ""
+              : this.createFileNameWithPath(dir, fileName),
+            success: true,
+          };
+          results.push(result);
+          if (invalidPath) {
+            result.success = false;
+            result.error = "InvalidPath";
+            continue;
+          }
+          if (this.entryExists(result.fileNameWithPath)) {
+            result.success = false;
+            result.error = "FileAlreadyExists";
+            continue;
+          }
+
+          try {
+            await pipeline(
+              Readable.from(entry.content),
+              this.createWriteStream(dir, fileName, {
+                modifiedTime: entry.mtime,
+                blockStorage: true,
+              }),
+            );
+          } catch (error) {
+            if (!this.isQuotaError(error)) {
+              throw error;
+            }
+            result.success = false;
+            result.error = "QuotaExceeded";
+            continue;
+          }
+          await this.waitForTransaction();
+          updatedMode.run(entry.mode & 0o7777, result.fileNameWithPath);
+        }
+      } catch (error) {
+        if (
+          error instanceof VaultError &&
+          (error.code === "InvalidArchive" ||
+            error.code === "UnsupportedArchive")
+        ) {
+          return { ...this.fail(error.code), files: results };
+        }
+        throw error;
+      }
+
+      const totalFailed = results.filter((result) => !result.success).length;
       return {
-        success: false,
-        error: "DirectoryAlreadyEmpty",
+        files: results,
+        totalImported: results.length - totalFailed,
+        totalFailed,
+        success: true,
       };
+    } catch (error) {
+      throw toVaultError(error);
+    }
+  }
+
+  /**
+   * Re-encrypts every stored content with a new key, in batches of rows within a single transaction.
+   * The vault keeps working with the new key, which must be given to `createSQLiteVault` from now on.
+   *
+   * @param oldKey - The current 32-byte encryption key.
+   * @param newKey - The new 32-byte encryption key.
+   * @returns An object indicating the success of the operation and the number of re-encrypted rows.
+   * If the vault was created without `encryptionKey`, it returns an error 'EncryptionDisabled'.
+   * If the old key is not the current key or the new key is not 32 bytes long, it returns an error 'InvalidEncryptionKey'.
+   * If a content has been tampered with, it returns an error 'DecryptionFailed' and nothing is re-encrypted.
+   */
+  async rekey(
+    oldKey: Buffer,
+    newKey: Buffer,
+  ): Promise<
+    VaultResult<
+      { reencryptedRows: number },
+      | "EncryptionDisabled"
+      | "InvalidEncryptionKey"
+      | "DecryptionFailed"
+      | "ReadOnlyVault"
+    >
+  > {
+    if (this.readonly) {
+      return this.fail("ReadOnlyVault");
+    }
+    try {
+      await this.waitForTransaction();
+      if (this.encryptionKey === undefined) {
+        return this.fail("EncryptionDisabled");
+      }
+      if (!this.encryptionKey.equals(oldKey) || newKey.byteLength !== 32) {
+        return this.fail("InvalidEncryptionKey");
+      }
+
+      const updatedKeyCheck = this.prepare<Buffer>(
+        `UPDATE ${this.table}_settings SET value = ? WHERE name = 'keyCheck'`,
+      );
+
+      let reencryptedRows = 0;
+      try {
+        this.db.transaction(() => {
+          CONTENT_TABLES.forEach((suffix) => {
+            const table = `${this.table}${suffix}`;
+            const nextRows = this.prepare<[number, number]>(
+              `SELECT rowid, data FROM ${table} WHERE rowid > ? AND data IS NOT NULL ORDER BY rowid LIMIT ?`,
+            );
+            const updatedRow = this.prepare<[Buffer, number]>(
+              `UPDATE ${table} SET data = ? WHERE rowid = ?`,
+            );
+            let lastRowid = 0;
+            let rows: Array<{ rowid: number; data: Buffer }>;
+            do {
+              rows = nextRows.all(lastRowid, REKEY_BATCH_SIZE) as typeof rows;
+              rows.forEach(({ rowid, data }) => {
+                updatedRow.run(encrypt(newKey, decrypt(oldKey, data)), rowid);
+                lastRowid = rowid;
+              });
+              reencryptedRows += rows.length;
+            } while (rows.length === REKEY_BATCH_SIZE);
+          });
+          updatedKeyCheck.run(encrypt(newKey, randomBytes(IV_LENGTH)));
+        })();
+      } catch (error) {
+        if (this.isDecryptionError(error)) {
+          return this.fail("DecryptionFailed");
+        }
+        throw error;
+      }
+      this.encryptionKey = newKey;
+
+      return { success: true, reencryptedRows };
+    } catch (error) {
+      throw toVaultError(error);
+    }
+  }
+}
+
+/**
+ * The SQL of a pragma set when a vault is created, its value is written as a number or as a quoted identifier
+ * (like "NORMAL"), so that nothing else can be run along with it.
+ * @throws A `VaultError` 'InvalidPragma' when the name is not a plain identifier or the value is neither a number nor a string.
+ */
+function pragmaOf(name: string, value: unknown): string {
+  if (PRAGMA_NAME_PATTERN.test(name)) {
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return `${name} = ${value}`;
     }
-    const directoryToDelete = `/${sanitizedPath}/%`;
+    if (typeof value === "string") {
+      return `${name} = "${value.replace(/"/g, '""')}"`;
+    }
+  }
+  throw new VaultError("InvalidPragma");
+}
 
-    const result = this.db
-      .prepare<SQLarFile["name"]>("DELETE FROM sqlar WHERE name LIKE ?")
-      .run(directoryToDelete);
-    if (result.changes === 0) {
-      return { success: false, error: "DirectoryAlreadyEmpty" };
+/**
+ * Creates the tables of a vault named after `table` when they do not exist.
+ * With the schema 'temp', only the tables missing from the database are created, as empty temporary tables,
+ * so that a database opened read-only (like a plain sqlar archive) is read with the defaults of a new vault.
+ */
+function createTables(
+  db: Database,
+  table: string,
+  options: VaultOptions,
+  schema: "main" | "temp" = "main",
+) {
+  const existing = new Set(
+    schema === "temp"
+      ? db
+          .prepare(`SELECT name FROM main.sqlite_master WHERE type = 'table'`)
+          .pluck()
+          .all()
+      : [],
+  );
+  const createTable = (name: string, definition: string) => {
+    if (existing.has(name)) {
+      return false;
     }
-    return { success: true };
+    db.prepare(
+      `CREATE TABLE IF NOT EXISTS ${schema}.${name}(${definition})`,
+    ).run();
+    return true;
+  };
+
+  createTable(
+    table,
+    `
+      name TEXT PRIMARY KEY,  -- name of the file
+      mode INT,               -- access permissions
+      mtime INT,              -- last modification time
+      sz INT,                 -- original file size
+      data BLOB               -- compressed content
+    `,
+  );
+
+  createTable(
+    `${table}_blocks`,
+    `
+      name TEXT,              -- name of the file
+      seq INT,                -- position of the block in the file
+      offset INT,             -- offset of the block in the original file
+      sz INT,                 -- original block size
+      data BLOB,              -- compressed block content
+      PRIMARY KEY(name, seq)
+    `,
+  );
+
+  createTable(
+    `${table}_contents`,
+    `
+      hash TEXT PRIMARY KEY,  -- SHA-256 of the original content
+      refs INT,               -- number of files referencing the content
+      sz INT,                 -- original content size
+      data BLOB               -- compressed content
+    `,
+  );
+
+  const refsCreated = createTable(
+    `${table}_refs`,
+    `
+      name TEXT PRIMARY KEY,  -- name of the file
+      hash TEXT               -- SHA-256 of the referenced content
+    `,
+  );
+
+  if (refsCreated) {
+    db.prepare(
+      `CREATE INDEX IF NOT EXISTS ${schema}.${table}_refs_hash ON ${table}_refs(hash)`,
+    ).run();
+  }
+
+  createTable(
+    `${table}_metadata`,
+    `
+      name TEXT PRIMARY KEY,  -- name of the file
+      contentType TEXT,       -- MIME type of the file
+      checksum TEXT,          -- SHA-256 of the original content
+      tags TEXT               -- custom key/value tags (JSON object)
+    `,
+  );
+
+  createTable(
+    `${table}_versions`,
+    `
+      name TEXT,              -- name of the file
+      version INT,            -- version number, starting at 1
+      mtime INT,              -- modification time of the version
+      sz INT,                 -- original version size
+      data BLOB,              -- compressed version content
+      PRIMARY KEY(name, version)
+    `,
+  );
+
+  createTable(
+    `${table}_trash`,
+    `
+      id INTEGER PRIMARY KEY, -- id of the trash entry
+      name TEXT,              -- original path of the deleted file or directory
+      isDirectory INT,        -- 1 when the entry holds the files of a directory
+      deletedAt INT           -- deletion time
+    `,
+  );
+
+  createTable(
+    `${table}_settings`,
+    `
+      name TEXT PRIMARY KEY,  -- name of the setting
+      value BLOB              -- value of the setting
+    `,
+  );
+
+  if (options.fullTextSearch === true && !existing.has(`${table}_fts`)) {
+    db.prepare(
+      `CREATE VIRTUAL TABLE IF NOT EXISTS ${schema}.${table}_fts USING fts5(name UNINDEXED, content)`,
+    ).run();
   }
 }
 
 /**
  * Creates a SQLite storage manager for file storage.
- * @param databasePath The path to the SQLite database file.
+ * @param database The path to the SQLite database file, or an open database to store the files along with other tables
+ * (it is then neither switched to WAL nor closed on failure).
+ * @param options (optional) The options of the vault, like `deduplicate` or `tableName`.
  * @returns A promise that resolves to a FileStorageManager instance.
+ * It throws an error 'EncryptionKeyRequired' when an encrypted vault is opened without `encryptionKey`,
+ * 'InvalidEncryptionKey' when the key is not 32 bytes long or is not the key of the vault,
+ * and 'VaultNotEncrypted' when a key is given for a vault that already has unencrypted files.
+ * The errors are thrown as a `VaultError`, like 'InvalidTableName' when `tableName` is not a plain identifier,
+ * 'InvalidPragma' when a pragma of `pragmas` is not a plain identifier with a number or a keyword,
+ * 'ExtensionNotLoaded' when the sqlar extension can not be loaded with the `sqlarFunctions` option 'extension',
+ * or 'StorageCorrupted' when the file is not a database.
  */
 export async function createSQLiteVault(
-  databasePath: string,
+  database: string | Database,
+  options: VaultOptions = {},
 ): Promise<FileStorageManager> {
-  const db = new BetterDatabase(databasePath, {
-    fileMustExist: false,
-  });
+  const table = tableNameOf(options);
+  let db: Database;
+  try {
+    db =
+      typeof database === "string"
+        ? new BetterDatabase(database, {
+            fileMustExist: options.readonly === true,
+            readonly: options.readonly === true,
+          })
+        : database;
+  } catch (error) {
+    throw toVaultError(error);
+  }
+  const closeDatabase = () => {
+    if (typeof database === "string") {
+      db.close();
+    }
+  };
+
+  const sqlarFunctions = options.sqlarFunctions ?? "auto";
+  if (sqlarFunctions === "zlib") {
+    defineSqlarFunctions(db);
+  } else {
+    try {
+      db.loadExtension(
+        process.env.NODE_ENV === "production"
+          ? path.resolve(__dirname, "sqlar")
+          : path.resolve("src", "sqlite-extensions", "sqlar"),
+      );
+    } catch (error) {
+      if (sqlarFunctions === "extension") {
+        closeDatabase();
+        throw new VaultError("ExtensionNotLoaded", error);
+      }
+      defineSqlarFunctions(db);
+    }
+  }
 
-  const extensionPath =
-    process.env.NODE_ENV === "production"
-      ? path.resolve(__dirname, "sqlar")
-      : path.resolve("src", "sqlite-extensions", "sqlar");
+  const readonly = options.readonly === true || db.readonly;
+  try {
+    if (typeof database === "string" && !readonly) {
+      db.pragma("journal_mode = WAL");
+    }
+    if (options.busyTimeout !== undefined) {
+      db.pragma(pragmaOf("busy_timeout", options.busyTimeout));
+    }
+    Object.entries(options.pragmas ?? {}).forEach(([name, value]) => {
+      db.pragma(pragmaOf(name, value));
+    });
+  } catch (error) {
+    closeDatabase();
+    throw toVaultError(error);
+  }
 
-  db.loadExtension(extensionPath);
-  db.pragma("journal_mode = WAL");
+  try {
+    createTables(db, table, options, readonly ? "temp" : "main");
 
-  db.prepare(
-    `
-    CREATE TABLE IF NOT EXISTS sqlar(
-        name TEXT PRIMARY KEY,  -- name of the file
-        mode INT,               -- access permissions
-        mtime INT,              -- last modification time
-        sz INT,                 -- original file size
-        data BLOB               -- compressed content
-      );
-    `,
-  ).run();
+    const keyCheck = db
+      .prepare(`SELECT value FROM ${table}_settings WHERE name = 'keyCheck'`)
+      .get() as { value: Buffer } | undefined;
+    const { encryptionKey } = options;
+    if (encryptionKey === undefined) {
+      if (keyCheck !== undefined) {
+        throw new VaultError("EncryptionKeyRequired");
+      }
+    } else if (encryptionKey.byteLength !== 32) {
+      throw new VaultError("InvalidEncryptionKey");
+    } else if (keyCheck === undefined) {
+      const file = db
+        .prepare(`SELECT name FROM ${table} WHERE ${IS_FILE} LIMIT 1`)
+        .get();
+      if (file !== undefined) {
+        throw new VaultError("VaultNotEncrypted");
+      }
+      if (!readonly) {
+        db.prepare<Buffer>(
+          `INSERT INTO ${table}_settings(name,value) VALUES ('keyCheck', ?)`,
+        ).run(encrypt(encryptionKey, randomBytes(IV_LENGTH)));
+      }
+    } else {
+      try {
+        decrypt(encryptionKey, keyCheck.value);
+      } catch {
+        throw new VaultError("InvalidEncryptionKey");
+      }
+    }
+  } catch (error) {
+    closeDatabase();
+    throw toVaultError(error);
+  }
 
-  return new FileStorageManager(db);
+  return new FileStorageManager(db, { ...options, readonly });
 }
@@ -0,0 +1,690 @@
+import { createDeflateRaw, createInflateRaw } from "zlib";
+import { VaultError } from "./errors.ts";
+
+/**
+ * An entry of a tar or zip archive, its path uses "/" as separator and has no trailing "/".
+ * The content of a file is streamed, the reader skips what is left of it when the next entry is requested.
+ * The size of a zip entry read from a stream is 0 when it is only known after its content (data descriptor).
+ */
+export interface ArchiveEntry {
+  path: string;
+  isDirectory: boolean;
+  mode: number;
+  mtime: number;
+  size: number;
+  content: AsyncIterable<Buffer> | Iterable<Buffer>;
+}
+
+export type ArchiveFormat = "zip" | "tar";
+
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * Largest size and mtime that fit in the octal fields of a ustar header, larger values are written in a pax header.
+ */
+const TAR_MAX_SIZE = 0o77777777777;
+
+/**
+ * Largest value of the 32-bit fields of a zip archive, larger values are written in a zip64 extra field.
+ * A file whose size is close to it is always written with zip64 sizes, since its compressed size is only known at the end.
+ */
+const ZIP32_MAX = 0xffffffff;
+const ZIP64_FILE_SIZE = ZIP32_MAX - 16 * 1024 * 1024;
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_DATA_DESCRIPTOR = 0x08074b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+/**
+ * General purpose flags of the entries written: sizes and CRC-32 in a data descriptor (bit 3) and UTF-8 names (bit 11).
+ */
+const ZIP_FLAGS = 0x0808;
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = (c & 1) !== 0 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer, previous = 0): number {
+  let crc = ~previous;
+  for (let i = 0; i < data.byteLength; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+/**
+ * Reads exact amounts of bytes from a stream, the bytes read ahead can be pushed back with `unshift`.
+ */
+class ByteReader {
+  private readonly iterator: AsyncIterator<Buffer | string>;
+  private buffered = Buffer.alloc(0);
+
+  constructor(source: AsyncIterable<Buffer | string>) {
+    this.iterator = source[Symbol.asyncIterator]();
+  }
+
+  private async fill(size: number): Promise<boolean> {
+    while (this.buffered.byteLength < size) {
+      const { done, value } = await this.iterator.next();
+      if (done === true) {
+        return false;
+      }
+      this.buffered = Buffer.concat([this.buffered, Buffer.from(value)]);
+    }
+    return true;
+  }
+
+  async read(size: number): Promise<Buffer> {
+    if (!(await this.fill(size))) {
+      throw new VaultError("InvalidArchive");
+    }
+    const data = this.buffered.subarray(0, size);
+    this.buffered = this.buffered.subarray(size);
+    return data;
+  }
+
+  /**
+   * Reads up to `maxSize` bytes, it returns undefined at the end of the stream.
+   */
+  async readChunk(maxSize: number): Promise<Buffer | undefined> {
+    if (this.buffered.byteLength === 0 && !(await this.fill(1))) {
+      return undefined;
+    }
+    return await this.read(Math.min(maxSize, this.buffered.byteLength));
+  }
+
+  async skip(size: number) {
+    let remaining = size;
+    while (remaining > 0) {
+      const chunk = await this.readChunk(remaining);
+      if (chunk === undefined) {
+        throw new VaultError("InvalidArchive");
+      }
+      remaining -= chunk.byteLength;
+    }
+  }
+
+  unshift(data: Buffer) {
+    this.buffered = Buffer.concat([data, this.buffered]);
+  }
+}
+
+async function* readExactly(
+  reader: ByteReader,
+  size: number,
+): AsyncGenerator<Buffer> {
+  let remaining = size;
+  while (remaining > 0) {
+    const chunk = await reader.readChunk(Math.min(remaining, 64 * 1024));
+    if (chunk === undefined) {
+      throw new VaultError("InvalidArchive");
+    }
+    remaining -= chunk.byteLength;
+    yield chunk;
+  }
+}
+
+/**
+ * Inflates raw deflate data from the reader, the bytes after the end of the deflate stream are pushed back.
+ */
+async function* inflate(
+  reader: ByteReader,
+  size?: number,
+): AsyncGenerator<Buffer> {
+  const inflater = createInflateRaw();
+  const output: Buffer[] = [];
+  inflater.on("data", (chunk: Buffer) => output.push(chunk));
+  let remaining = size ?? Infinity;
+  try {
+    while (remaining > 0) {
+      const chunk = await reader.readChunk(Math.min(remaining, 64 * 1024));
+      if (chunk === undefined) {
+        throw new VaultError("InvalidArchive");
+      }
+      remaining -= chunk.byteLength;
+      const consumedBefore = inflater.bytesWritten;
+      await new Promise<void>((resolve, reject) => {
+        inflater.write(chunk, (error) => {
+          if (error != null) {
+            reject(new VaultError("InvalidArchive"));
+          } else {
+            resolve();
+          }
+        });
+      });
+      yield* output.splice(0);
+      const consumed = inflater.bytesWritten - consumedBefore;
+      if (consumed < chunk.byteLength) {
+        reader.unshift(chunk.subarray(consumed));
+        break;
+      }
+    }
+  } finally {
+    inflater.destroy();
+  }
+}
+
+/**
+ * Wraps an iterator so that abandoning the iteration does not close it, the archive reader drains it afterwards.
+ */
+function shielded(iterator: AsyncIterator<Buffer>): AsyncIterable<Buffer> {
+  return {
+    [Symbol.asyncIterator]: () => ({
+      next: async () => await iterator.next(),
+    }),
+  };
+}
+
+async function drain(iterator: AsyncIterator<Buffer>) {
+  let result = await iterator.next();
+  while (result.done !== true) {
+    result = await iterator.next();
+  }
+}
+
+function tarField(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf-8");
+}
+
+function tarNumber(header: Buffer, offset: number, length: number): number {
+  if ((header[offset] & 0x80) !== 0) {
+    return Number(
+      header.subarray(offset + 1, offset + length).readBigUInt64BE(length - 9),
+    );
+  }
+  const value = tarField(header, offset, length).trim();
+  return value === "" ? 0 : parseInt(value, 8);
+}
+
+function tarChecksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+function paxRecords(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let position = 0;
+  while (position < data.byteLength) {
+    const space = data.indexOf(0x20, position);
+    const length = parseInt(data.subarray(position, space).toString(), 10);
+    if (space === -1 || !(length > 0)) {
+      throw new VaultError("InvalidArchive");
+    }
+    const record = data
+      .subarray(space + 1, position + length - 1)
+      .toString("utf-8");
+    const separator = record.indexOf("=");
+    records[record.slice(0, separator)] = record.slice(separator + 1);
+    position += length;
+  }
+  return records;
+}
+
+/**
+ * Formats a pax record, "<length> <key>=<value>\n" where the length includes its own digits.
+ */
+function paxRecord(key: string, value: string): string {
+  const record = ` ${key}=${value}\n`;
+  const recordLength = Buffer.byteLength(record);
+  let length = recordLength + 1;
+  while (length !== recordLength + String(length).length) {
+    length = recordLength + String(length).length;
+  }
+  return `${length}${record}`;
+}
+
+function tarHeader(
+  path: string,
+  type: string,
+  mode: number,
+  mtime: number,
+  size: number,
+): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK_SIZE);
+  header.write(path, 0, 100, "utf-8");
+  header.write(`${(mode & 0o7777).toString(8).padStart(7, "0")}\0`, 100);
+  header.write("0000000\0", 108);
+  header.write("0000000\0", 116);
+  header.write(`${size.toString(8).padStart(11, "0")}\0`, 124);
+  header.write(`${mtime.toString(8).padStart(11, "0")}\0`, 136);
+  header.write(type, 156);
+  header.write("ustar\x0000", 257);
+  header.write(`${tarChecksum(header).toString(8).padStart(6, "0")}\0 `, 148);
+  return header;
+}
+
+function tarPadding(size: number): Buffer {
+  return Buffer.alloc(
+    (TAR_BLOCK_SIZE - (size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE,
+  );
+}
+
+/**
+ * Writes the entries as a (pax) tar archive.
+ */
+export async function* createTarArchive(
+  entries: AsyncIterable<ArchiveEntry>,
+): AsyncGenerator<Buffer> {
+  for await (const entry of entries) {
+    const path = entry.isDirectory ? `${entry.path}/` : entry.path;
+    const size = entry.isDirectory ? 0 : entry.size;
+    const mtime = Math.max(0, Math.round(entry.mtime));
+    const records = [
+      Buffer.byteLength(path) > 100 ? paxRecord("path", path) : "",
+      size > TAR_MAX_SIZE ? paxRecord("size", String(size)) : "",
+      mtime > TAR_MAX_SIZE ? paxRecord("mtime", String(mtime)) : "",
+    ].join("");
+    if (records !== "") {
+      const pax = Buffer.from(records, "utf-8");
+      yield tarHeader("PaxHeader", "x", 0o644, 0, pax.byteLength);
+      yield Buffer.concat([pax, tarPadding(pax.byteLength)]);
+    }
+    yield tarHeader(
+      path,
+      entry.isDirectory ? "5" : "0",
+      entry.mode,
+      Math.min(mtime, TAR_MAX_SIZE),
+      Math.min(size, TAR_MAX_SIZE),
+    );
+    if (!entry.isDirectory) {
+      let written = 0;
+      for await (const chunk of entry.content) {
+        written += chunk.byteLength;
+        yield chunk;
+      }
+      if (written !== size) {
+        throw new VaultError("InvalidArchive");
+      }
+      yield tarPadding(size);
+    }
+  }
+  yield Buffer.alloc(TAR_BLOCK_SIZE * 2);
+}
+
+/**
+ * Reads the files and directories of a tar archive (ustar, pax and GNU long names), other entries are skipped.
+ */
+export async function* readTarArchive(
+  source: AsyncIterable<Buffer | string>,
+): AsyncGenerator<ArchiveEntry> {
+  const reader = new ByteReader(source);
+  let extended: Record<string, string> = {};
+  for (;;) {
+    const header = await reader.read(TAR_BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      return;
+    }
+    if (tarNumber(header, 148, 8) !== tarChecksum(header)) {
+      throw new VaultError("InvalidArchive");
+    }
+    const type = tarField(header, 156, 1);
+    const headerSize = tarNumber(header, 124, 12);
+
+    if (type === "x" || type === "L" || type === "g") {
+      const data = await reader.read(headerSize);
+      await reader.skip(tarPadding(headerSize).byteLength);
+      if (type === "x") {
+        extended = { ...extended, ...paxRecords(data) };
+      } else if (type === "L") {
+        extended = { ...extended, path: tarField(data, 0, data.byteLength) };
+      }
+      continue;
+    }
+
+    const size = Number(extended.size ?? headerSize);
+    const padding = tarPadding(size).byteLength;
+
+    const prefix = tarField(header, 345, 155);
+    const name = tarField(header, 0, 100);
+    const path = extended.path ?? (prefix !== "" ? `${prefix}/${name}` : name);
+    const mtime = Number(extended.mtime ?? tarNumber(header, 136, 12));
+    extended = {};
+
+    const isFile = type === "0" || type === "" || type === "7";
+    const isDirectory = type === "5";
+    if (!isFile && !isDirectory) {
+      await reader.skip(size + padding);
+      continue;
+    }
+
+    const content = readExactly(reader, isFile ? size : 0);
+    yield {
+      path: path.replace(/\/+$/, ""),
+      isDirectory,
+      mode: tarNumber(header, 100, 8),
+      mtime: Math.floor(mtime),
+      size: isFile ? size : 0,
+      content: shielded(content),
+    };
+    await drain(content);
+    await reader.skip(isFile ? padding : size + padding);
+  }
+}
+
+function dosDateTime(mtime: number): { time: number; date: number } {
+  const date = new Date(mtime * 1000);
+  if (date.getFullYear() < 1980) {
+    return { time: 0, date: (1 << 5) | 1 };
+  }
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+function extendedTimestamp(mtime: number): Buffer {
+  const field = Buffer.alloc(9);
+  field.writeUInt16LE(0x5455, 0);
+  field.writeUInt16LE(5, 2);
+  field.writeUInt8(1, 4);
+  field.writeUInt32LE(Math.max(0, Math.min(mtime, ZIP32_MAX)), 5);
+  return field;
+}
+
+function zip64Field(values: number[]): Buffer {
+  const field = Buffer.alloc(4 + values.length * 8);
+  field.writeUInt16LE(0x0001, 0);
+  field.writeUInt16LE(values.length * 8, 2);
+  values.forEach((value, index) => {
+    field.writeBigUInt64LE(BigInt(value), 4 + index * 8);
+  });
+  return field;
+}
+
+/**
+ * Writes the entries as a zip archive, the files are deflated and zip64 fields are used when needed.
+ */
+export async function* createZipArchive(
+  entries: AsyncIterable<ArchiveEntry>,
+): AsyncGenerator<Buffer> {
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+  let totalEntries = 0;
+
+  for await (const entry of entries) {
+    const name = Buffer.from(
+      entry.isDirectory ? `${entry.path}/` : entry.path,
+      "utf-8",
+    );
+    const mtime = Math.round(entry.mtime);
+    const { time, date } = dosDateTime(mtime);
+    const method = entry.isDirectory ? 0 : 8;
+    const flags = entry.isDirectory ? 0x0800 : ZIP_FLAGS;
+    const zip64 = !entry.isDirectory && entry.size >= ZIP64_FILE_SIZE;
+    const localExtra = Buffer.concat([
+      extendedTimestamp(mtime),
+      zip64 ? zip64Field([0, 0]) : Buffer.alloc(0),
+    ]);
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(ZIP_LOCAL_HEADER, 0);
+    localHeader.writeUInt16LE(zip64 ? 45 : 20, 4);
+    localHeader.writeUInt16LE(flags, 6);
+    localHeader.writeUInt16LE(method, 8);
+    localHeader.writeUInt16LE(time, 10);
+    localHeader.writeUInt16LE(date, 12);
+    localHeader.writeUInt32LE(zip64 ? ZIP32_MAX : 0, 18);
+    localHeader.writeUInt32LE(zip64 ? ZIP32_MAX : 0, 22);
+    localHeader.writeUInt16LE(name.byteLength, 26);
+    localHeader.writeUInt16LE(localExtra.byteLength, 28);
+    const localHeaderOffset = offset;
+    yield Buffer.concat([localHeader, name, localExtra]);
+    offset += localHeader.byteLength + name.byteLength + localExtra.byteLength;
+
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+    if (!entry.isDirectory) {
+      const deflater = createDeflateRaw();
+      const compressed: Buffer[] = [];
+      deflater.on("data", (chunk: Buffer) => compressed.push(chunk));
+      const write = async (chunk: Buffer) => {
+        await new Promise<void>((resolve, reject) => {
+          deflater.write(chunk, (error) => {
+            if (error != null) {
+              reject(error);
+            } else {
+              resolve();
+            }
+          });
+        });
+      };
+      for await (const chunk of entry.content) {
+        crc = crc32(chunk, crc);
+        size += chunk.byteLength;
+        await write(chunk);
+        for (const data of compressed.splice(0)) {
+          compressedSize += data.byteLength;
+          yield data;
+        }
+      }
+      await new Promise<void>((resolve, reject) => {
+        deflater.once("end", resolve);
+        deflater.once("error", reject);
+        deflater.end();
+      });
+      for (const data of compressed.splice(0)) {
+        compressedSize += data.byteLength;
+        yield data;
+      }
+
+      const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+      descriptor.writeUInt32LE(ZIP_DATA_DESCRIPTOR, 0);
+      descriptor.writeUInt32LE(crc, 4);
+      if (zip64) {
+        descriptor.writeBigUInt64LE(BigInt(compressedSize), 8);
+        descriptor.writeBigUInt64LE(BigInt(size), 16);
+      } else if (compressedSize >= ZIP32_MAX || size >= ZIP32_MAX) {
+        throw new VaultError("InvalidArchive");
+      } else {
+        descriptor.writeUInt32LE(compressedSize, 8);
+        descriptor.writeUInt32LE(size, 12);
+      }
+      yield descriptor;
+      offset += compressedSize + descriptor.byteLength;
+    }
+
+    const centralZip64 =
+      zip64 || localHeaderOffset >= ZIP32_MAX || size >= ZIP32_MAX;
+    const centralExtra = Buffer.concat([
+      extendedTimestamp(mtime),
+      centralZip64
+        ? zip64Field([size, compressedSize, localHeaderOffset])
+        : Buffer.alloc(0),
+    ]);
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(ZIP_CENTRAL_HEADER, 0);
+    centralHeader.writeUInt16LE((3 << 8) | 45, 4);
+    centralHeader.writeUInt16LE(centralZip64 ? 45 : 20, 6);
+    centralHeader.writeUInt16LE(flags, 8);
+    centralHeader.writeUInt16LE(method, 10);
+    centralHeader.writeUInt16LE(time, 12);
+    centralHeader.writeUInt16LE(date, 14);
+    centralHeader.writeUInt32LE(crc, 16);
+    centralHeader.writeUInt32LE(centralZip64 ? ZIP32_MAX : compressedSize, 20);
+    centralHeader.writeUInt32LE(centralZip64 ? ZIP32_MAX : size, 24);
+    centralHeader.writeUInt16LE(name.byteLength, 28);
+    centralHeader.writeUInt16LE(centralExtra.byteLength, 30);
+    centralHeader.writeUInt32LE(
+      ((((entry.isDirectory ? 0o040000 : 0o100000) | (entry.mode & 0o7777)) <<
+        16) |
+        (entry.isDirectory ? 0x10 : 0)) >>>
+        0,
+      38,
+    );
+    centralHeader.writeUInt32LE(
+      centralZip64 ? ZIP32_MAX : localHeaderOffset,
+      42,
+    );
+    centralDirectory.push(Buffer.concat([centralHeader, name, centralExtra]));
+    totalEntries++;
+  }
+
+  const centralDirectoryOffset = offset;
+  const centralDirectorySize = centralDirectory.reduce(
+    (total, header) => total + header.byteLength,
+    0,
+  );
+  yield* centralDirectory;
+
+  const zip64End =
+    totalEntries >= 0xffff ||
+    centralDirectoryOffset >= ZIP32_MAX ||
+    centralDirectorySize >= ZIP32_MAX;
+  if (zip64End) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY, 0);
+    record.writeBigUInt64LE(44n, 4);
+    record.writeUInt16LE((3 << 8) | 45, 12);
+    record.writeUInt16LE(45, 14);
+    record.writeBigUInt64LE(BigInt(totalEntries), 24);
+    record.writeBigUInt64LE(BigInt(totalEntries), 32);
+    record.writeBigUInt64LE(BigInt(centralDirectorySize), 40);
+    record.writeBigUInt64LE(BigInt(centralDirectoryOffset), 48);
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR, 0);
+    locator.writeBigUInt64LE(
+      BigInt(centralDirectoryOffset + centralDirectorySize),
+      8,
+    );
+    locator.writeUInt32LE(1, 16);
+    yield Buffer.concat([record, locator]);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(ZIP_END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(Math.min(totalEntries, 0xffff), 8);
+  end.writeUInt16LE(Math.min(totalEntries, 0xffff), 10);
+  end.writeUInt32LE(Math.min(centralDirectorySize, ZIP32_MAX), 12);
+  end.writeUInt32LE(Math.min(centralDirectoryOffset, ZIP32_MAX), 16);
+  yield end;
+}
+
+/**
+ * Reads the files and directories of a zip archive from its local headers, without seeking.
+ * Only stored and deflated entries are supported, stored entries must have their sizes in the local header.
+ */
+export async function* readZipArchive(
+  source: AsyncIterable<Buffer | string>,
+): AsyncGenerator<ArchiveEntry> {
+  const reader = new ByteReader(source);
+  for (;;) {
+    const signature = (await reader.read(4)).readUInt32LE(0);
+    if (
+      signature === ZIP_CENTRAL_HEADER ||
+      signature === ZIP_END_OF_CENTRAL_DIRECTORY
+    ) {
+      return;
+    }
+    if (signature !== ZIP_LOCAL_HEADER) {
+      throw new VaultError("InvalidArchive");
+    }
+
+    const header = await reader.read(26);
+    const flags = header.readUInt16LE(2);
+    const method = header.readUInt16LE(4);
+    const time = header.readUInt16LE(6);
+    const date = header.readUInt16LE(8);
+    const entry = {
+      crc: header.readUInt32LE(10),
+      compressedSize: header.readUInt32LE(14),
+      size: header.readUInt32LE(18),
+    };
+    const name = (await reader.read(header.readUInt16LE(22))).toString(
+      (flags & 0x0800) !== 0 ? "utf-8" : "latin1",
+    );
+    const extra = await reader.read(header.readUInt16LE(24));
+
+    let mtime =
+      new Date(
+        (date >> 9) + 1980,
+        ((date >> 5) & 0x0f) - 1,
+        date & 0x1f,
+        time >> 11,
+        (time >> 5) & 0x3f,
+        (time & 0x1f) * 2,
+      ).getTime() / 1000;
+    let zip64 = false;
+    for (let position = 0; position + 4 <= extra.byteLength;) {
+      const id = extra.readUInt16LE(position);
+      const length = extra.readUInt16LE(position + 2);
+      const data = extra.subarray(position + 4, position + 4 + length);
+      if (id === 0x5455 && (data[0] & 1) !== 0 && length >= 5) {
+        mtime = data.readUInt32LE(1);
+      } else if (id === 0x0001) {
+        zip64 = true;
+        let field = 0;
+        if (entry.size === ZIP32_MAX && length >= field + 8) {
+          entry.size = Number(data.readBigUInt64LE(field));
+          field += 8;
+        }
+        if (entry.compressedSize === ZIP32_MAX && length >= field + 8) {
+          entry.compressedSize = Number(data.readBigUInt64LE(field));
+        }
+      }
+      position += 4 + length;
+    }
+
+    const withDescriptor = (flags & 0x0008) !== 0;
+    if ((method !== 0 && method !== 8) || (withDescriptor && method === 0)) {
+      throw new VaultError("UnsupportedArchive");
+    }
+
+    const content = (async function* () {
+      let crc = 0;
+      let size = 0;
+      const data =
+        method === 8
+          ? inflate(reader, withDescriptor ? undefined : entry.compressedSize)
+          : readExactly(reader, entry.compressedSize);
+      for await (const chunk of data) {
+        crc = crc32(chunk, crc);
+        size += chunk.byteLength;
+        yield chunk;
+      }
+      if (withDescriptor) {
+        let descriptor = await reader.read(4);
+        if (descriptor.readUInt32LE(0) === ZIP_DATA_DESCRIPTOR) {
+          descriptor = await reader.read(4);
+        }
+        entry.crc = descriptor.readUInt32LE(0);
+        const sizes = await reader.read(zip64 ? 16 : 8);
+        entry.size = zip64
+          ? Number(sizes.readBigUInt64LE(8))
+          : sizes.readUInt32LE(4);
+      }
+      if (crc !== entry.crc || size !== entry.size) {
+        throw new VaultError("InvalidArchive");
+      }
+    })();
+
+    const isDirectory = name.endsWith("/");
+    yield {
+      path: name.replace(/\/+$/, ""),
+      isDirectory,
+      mode: isDirectory ? 0o755 : 0o644,
+      mtime,
+      size: entry.size,
+      content: shielded(content),
+    };
+    await drain(content);
+  }
+}
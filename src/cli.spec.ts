@@ -0,0 +1,294 @@
+import { describe, it, beforeAll, afterAll, expect } from "vitest";
+import BetterDatabase from "better-sqlite3";
+import fs from "node:fs/promises";
+import { PassThrough, Readable } from "node:stream";
+import { randomBytes } from "node:crypto";
+import path from "path";
+import os from "node:os";
+import { createSQLiteVault } from "./FileStorageManager.ts";
+import { runCli } from "./cli.ts";
+import { deleteStorageDB } from "./tests-utils/fixtures/storageDB.ts";
+
+async function run(args: string[], stdin: Buffer = Buffer.alloc(0)) {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const output: Buffer[] = [];
+  const errors: Buffer[] = [];
+  stdout.on("data", (chunk: Buffer) => output.push(chunk));
+  stderr.on("data", (chunk: Buffer) => errors.push(chunk));
+  const exitCode = await runCli(args, {
+    stdin: Readable.from([stdin]),
+    stdout,
+    stderr,
+  });
+  return {
+    exitCode,
+    stdout: Buffer.concat(output).toString(),
+    stderr: Buffer.concat(errors).toString(),
+  };
+}
+
+describe("sqlar-vault cli", () => {
+  const cliStorageDBName = `test_cli_${Date.now()}.sqlar`;
+  let localDir: string;
+
+  beforeAll(async () => {
+    localDir = await fs.mkdtemp(path.join(os.tmpdir(), "sqlar-vault-cli-"));
+    await fs.writeFile(path.join(localDir, "notes.txt"), "some notes");
+    const storage = await createSQLiteVault(cliStorageDBName, {
+      fullTextSearch: true,
+    });
+    await storage.storeFile(["docs"], "a.txt", Buffer.from("a"));
+    await storage.storeFile(["docs", "old"], "b.md", Buffer.from("bb"));
+  });
+
+  it("should put a local file and stdin and get them back", async () => {
+    const put = await run([
+      cliStorageDBName,
+      "put",
+      path.join(localDir, "notes.txt"),
+      "/docs/",
+      "--content-type",
+      "text/plain",
+    ]);
+
+    expect(put).toMatchObject({ exitCode: 0, stdout: "/docs/notes.txt\n" });
+
+    const putStdin = await run(
+      [cliStorageDBName, "put", "-", "/docs/stdin.bin", "--json"],
+      Buffer.from("from stdin"),
+    );
+
+    expect(putStdin.exitCode).toBe(0);
+    expect(JSON.parse(putStdin.stdout)).toEqual({
+      success: true,
+      fileNameWithPath: "/docs/stdin.bin",
+      sz: 10,
+    });
+
+    expect(await run([cliStorageDBName, "get", "/docs/stdin.bin"])).toEqual({
+      exitCode: 0,
+      stdout: "from stdin",
+      stderr: "",
+    });
+
+    const get = await run([
+      cliStorageDBName,
+      "get",
+      "/docs/notes.txt",
+      path.join(localDir, "copy.txt"),
+    ]);
+
+    expect(get.exitCode).toBe(0);
+    expect(await fs.readFile(path.join(localDir, "copy.txt"), "utf8")).toBe(
+      "some notes",
+    );
+  });
+
+  it("should refuse to put an existing file unless overwriting", async () => {
+    const put = await run(
+      [cliStorageDBName, "put", "-", "/docs/a.txt"],
+      Buffer.from("new"),
+    );
+
+    expect(put.exitCode).toBe(1);
+    expect(put.stderr).toBe(
+      "sqlar-vault: put: /docs/a.txt: FileAlreadyExists\n",
+    );
+
+    const overwrite = await run(
+      [cliStorageDBName, "put", "-", "/docs/a.txt", "--overwrite"],
+      Buffer.from("new"),
+    );
+
+    expect(overwrite.exitCode).toBe(0);
+    expect((await run([cliStorageDBName, "get", "/docs/a.txt"])).stdout).toBe(
+      "new",
+    );
+  });
+
+  it("should list, stat, find and measure the files as JSON", async () => {
+    const ls = JSON.parse(
+      (await run([cliStorageDBName, "ls", "/docs", "--json"])).stdout,
+    );
+
+    expect(ls.directories.map((d: { name: string }) => d.name)).toEqual([
+      "old",
+    ]);
+    expect(ls.files.map((f: { name: string }) => f.name)).toEqual([
+      "a.txt",
+      "notes.txt",
+      "stdin.bin",
+    ]);
+
+    const stat = JSON.parse(
+      (await run([cliStorageDBName, "stat", "/docs/notes.txt", "--json"]))
+        .stdout,
+    );
+
+    expect(stat.file).toMatchObject({
+      fileNameWithPath: "/docs/notes.txt",
+      sz: 10,
+      contentType: "text/plain",
+    });
+    expect(stat.file.data).toBeUndefined();
+
+    const find = await run([cliStorageDBName, "find", "*.md"]);
+
+    expect(find.stdout).toBe("/docs/old/b.md\n");
+
+    const du = JSON.parse(
+      (await run([cliStorageDBName, "du", "/docs", "--json"])).stdout,
+    );
+
+    expect(du).toMatchObject({
+      directoryWithPath: "/docs",
+      directories: [{ directoryWithPath: "/docs/old", totalFiles: 1, sz: 2 }],
+      totalFiles: 4,
+      totalSize: 2 + 3 + 10 + 10,
+    });
+  });
+
+  it("should move and remove files and directories", async () => {
+    expect(
+      (await run([cliStorageDBName, "mv", "/docs/a.txt", "/docs/old/"])).stdout,
+    ).toBe("/docs/old/a.txt\n");
+    expect(
+      (await run([cliStorageDBName, "mv", "-r", "/docs/old", "/archive"]))
+        .exitCode,
+    ).toBe(0);
+    expect(
+      (await run([cliStorageDBName, "ls", "-r", "/archive"])).stdout,
+    ).toMatch(/\/archive\/a\.txt\n.*\/archive\/b\.md\n$/);
+
+    expect(
+      (await run([cliStorageDBName, "rm", "/archive/a.txt"])).exitCode,
+    ).toBe(0);
+    expect(
+      (await run([cliStorageDBName, "rm", "/archive/a.txt"])).exitCode,
+    ).toBe(1);
+    expect(
+      (await run([cliStorageDBName, "rm", "-r", "/archive"])).exitCode,
+    ).toBe(0);
+    expect((await run([cliStorageDBName, "ls", "/archive"])).stdout).toBe("");
+  });
+
+  it("should report the files whose content does not match their checksum", async () => {
+    expect(await run([cliStorageDBName, "verify"])).toMatchObject({
+      exitCode: 0,
+      stdout: "2/2 files verified\n",
+    });
+
+    const db = new BetterDatabase(cliStorageDBName);
+    db.prepare("UPDATE sqlar SET data = ? WHERE name = '/docs/notes.txt'").run(
+      Buffer.from("tampered!!"),
+    );
+    db.close();
+
+    const verify = await run([cliStorageDBName, "verify", "--json"]);
+
+    expect(verify.exitCode).toBe(1);
+    expect(JSON.parse(verify.stdout)).toEqual({
+      totalFiles: 2,
+      totalFailed: 1,
+      failures: [
+        { fileNameWithPath: "/docs/notes.txt", error: "ChecksumMismatch" },
+      ],
+      success: false,
+    });
+  });
+
+  it("should open an encrypted vault with the key", async () => {
+    const encryptedStorageDBName = `test_cli_encrypted_${Date.now()}.sqlar`;
+    const encryptionKey = randomBytes(32);
+    const storage = await createSQLiteVault(encryptedStorageDBName, {
+      encryptionKey,
+    });
+    await storage.storeFile(["docs"], "secret.txt", Buffer.from("secret"));
+
+    expect(
+      await run([encryptedStorageDBName, "get", "/docs/secret.txt"]),
+    ).toMatchObject({
+      exitCode: 1,
+      stderr: `sqlar-vault: get: ${encryptedStorageDBName}: EncryptionKeyRequired\n`,
+    });
+    expect(
+      (
+        await run([
+          encryptedStorageDBName,
+          "get",
+          "/docs/secret.txt",
+          "--key",
+          encryptionKey.toString("hex"),
+        ])
+      ).stdout,
+    ).toBe("secret");
+
+    await deleteStorageDB(encryptedStorageDBName);
+  });
+
+  it("should read a plain archive and the table given by --table read-only", async () => {
+    const plainStorageDBName = `test_cli_plain_${Date.now()}.sqlar`;
+    const db = new BetterDatabase(plainStorageDBName);
+    db.exec(
+      "CREATE TABLE sqlar(name TEXT PRIMARY KEY, mode INT, mtime INT, sz INT, data BLOB)",
+    );
+    db.prepare(
+      "INSERT INTO sqlar VALUES ('/docs/a.txt', 420, 0, 1, X'61')",
+    ).run();
+    db.close();
+    const plainArchive = () => {
+      const reader = new BetterDatabase(plainStorageDBName, { readonly: true });
+      try {
+        return {
+          journalMode: reader.pragma("journal_mode", { simple: true }),
+          tables: reader
+            .prepare(
+              "SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'sqlar%'",
+            )
+            .pluck()
+            .all(),
+        };
+      } finally {
+        reader.close();
+      }
+    };
+
+    expect((await run([plainStorageDBName, "get", "/docs/a.txt"])).stdout).toBe(
+      "a",
+    );
+    expect((await run([plainStorageDBName, "verify"])).exitCode).toBe(0);
+    expect(plainArchive()).toEqual({
+      journalMode: "delete",
+      tables: ["sqlar"],
+    });
+
+    const storage = await createSQLiteVault(plainStorageDBName, {
+      tableName: "invoices",
+      fullTextSearch: true,
+    });
+    await storage.storeFile(["2024"], "paid.txt", Buffer.from("paid"));
+
+    expect(
+      (await run([plainStorageDBName, "ls", "/2024", "--table", "invoices"]))
+        .stdout,
+    ).toContain("paid.txt");
+
+    await deleteStorageDB(plainStorageDBName);
+  });
+
+  it("should fail with usage errors", async () => {
+    expect((await run([cliStorageDBName])).exitCode).toBe(2);
+    expect((await run([cliStorageDBName, "cp", "/a", "/b"])).exitCode).toBe(2);
+    expect((await run([cliStorageDBName, "stat"])).exitCode).toBe(2);
+    expect((await run([cliStorageDBName, "stat", "/docs/"])).exitCode).toBe(2);
+    expect((await run(["missing.sqlar", "ls"])).stderr).toBe(
+      "sqlar-vault: ls: missing.sqlar: VaultNotFound\n",
+    );
+  });
+
+  afterAll(async () => {
+    await deleteStorageDB(cliStorageDBName);
+    await fs.rm(localDir, { recursive: true, force: true });
+  });
+});
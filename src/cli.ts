@@ -0,0 +1,578 @@
+import BetterDatabase from "better-sqlite3";
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { type Readable, type Writable } from "stream";
+import { pipeline } from "stream/promises";
+import { parseArgs } from "util";
+import {
+  createSQLiteVault,
+  type FileQuery,
+  type FileStorageManager,
+} from "./FileStorageManager.ts";
+
+/**
+ * The streams used by `runCli`, the process streams by default.
+ */
+export interface CliStreams {
+  stdin: Readable;
+  stdout: Writable;
+  stderr: Writable;
+}
+
+const USAGE = `Usage: sqlar-vault <vault> <command> [arguments] [options]
+
+Commands:
+  ls [dir]                  List the files and subdirectories of a directory
+  put <local|-> <path>      Store a local file (or stdin) in the vault
+  get <path> [local|-]      Write a file of the vault to a local file (or stdout)
+  rm <path>                 Delete a file, or a directory with -r
+  mv <path> <newPath>       Move a file, or a directory with -r
+  find <pattern> [dir]      Find the files whose name matches a glob pattern
+  du [dir]                  Show the size of a directory and its subdirectories
+  stat <path>               Show the attributes and metadata of a file
+  verify [dir]              Check the content of every file against its checksum
+
+Options:
+  --json                    Print the results as JSON
+  -r, --recursive           Apply 'ls', 'rm' and 'mv' to a whole directory
+  --page <n>                The page listed by 'ls' (Default is 1)
+  --per-page <n>            The entries per page listed by 'ls' (Default is 20)
+  --overwrite               Replace the content of an existing file on 'put'
+  --content-type <type>     The content type stored by 'put'
+  --key <hex>               The encryption key of the vault (Default is $SQLAR_VAULT_KEY)
+  --trash                   Move the deleted files to the trash
+  --max-versions <n>        The number of previous contents kept on 'put --overwrite'
+  --deduplicate             Store each distinct content only once
+  --table <name>            The table of files of the vault (Default is sqlar)
+  -h, --help                Show this help
+`;
+
+const PAGE_SIZE = 100;
+
+/**
+ * The commands that only read the vault, which is then opened read-only.
+ */
+const READ_COMMANDS = ["ls", "get", "find", "du", "stat", "verify"];
+
+class UsageError extends Error {}
+
+function splitPath(vaultPath: string) {
+  return vaultPath.split("/").filter((segment) => segment !== "");
+}
+
+function splitFilePath(vaultPath: string) {
+  const segments = splitPath(vaultPath);
+  const fileName = segments.pop();
+  if (fileName === undefined || vaultPath.endsWith("/")) {
+    throw new UsageError(`'${vaultPath}' is not a file path`);
+  }
+  return { dir: segments, fileName };
+}
+
+function parseNumber(value: string | undefined, name: string) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new UsageError(`--${name} must be a non-negative integer`);
+  }
+  return number;
+}
+
+function formatTime(mtime: number) {
+  return new Date(mtime * 1000).toISOString();
+}
+
+function hasFullTextIndex(vaultPath: string, table: string) {
+  const db = new BetterDatabase(vaultPath, {
+    readonly: true,
+    fileMustExist: true,
+  });
+  try {
+    return (
+      db
+        .prepare(
+          "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?",
+        )
+        .get(`${table}_fts`) !== undefined
+    );
+  } finally {
+    db.close();
+  }
+}
+
+async function* allFiles(storage: FileStorageManager, query: FileQuery) {
+  for (let pageNumber = 1; ; pageNumber++) {
+    const { files } = await storage.queryFiles({
+      ...query,
+      filesPerPage: PAGE_SIZE,
+      pageNumber,
+    });
+    yield* files;
+    if (files.length < PAGE_SIZE) {
+      return;
+    }
+  }
+}
+
+/**
+ * Runs the `sqlar-vault` command line with the given arguments (without the node and script paths).
+ * Every command works on a vault created by `createSQLiteVault` (with the table of files given by '--table'),
+ * a vault with a full-text index is detected and encrypted vaults are opened with '--key' or the SQLAR_VAULT_KEY
+ * environment variable. The commands that only read the vault open it read-only.
+ * With '--json', the result of the command is printed as a single JSON document.
+ * @param args - The command line arguments.
+ * Example: ["files.sqlar", "ls", "/root/images", "--json"]
+ * @param streams - (optional) The streams to read from and write to (Default is the process streams).
+ * @returns A promise that resolves to the exit code: 0 on success, 1 when the command fails and 2 on invalid usage.
+ */
+export async function runCli(
+  args: string[],
+  streams: CliStreams = {
+    stdin: process.stdin,
+    stdout: process.stdout,
+    stderr: process.stderr,
+  },
+): Promise<number> {
+  const { stdin, stdout, stderr } = streams;
+  let json = false;
+  let command = "";
+
+  const print = (result: unknown, text: string) => {
+    stdout.write(json ? `${JSON.stringify(result, null, 2)}\n` : text);
+  };
+  const fail = (
+    result: { success?: boolean; error?: string },
+    subject?: string,
+  ) => {
+    if (json) {
+      stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    } else {
+      const prefix = [command, subject].filter((s) => s !== undefined);
+      stderr.write(
+        `sqlar-vault: ${[...prefix, result.error ?? "Failed"].join(": ")}\n`,
+      );
+    }
+    return 1;
+  };
+
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        json: { type: "boolean" },
+        recursive: { type: "boolean", short: "r" },
+        page: { type: "string" },
+        "per-page": { type: "string" },
+        overwrite: { type: "boolean" },
+        "content-type": { type: "string" },
+        key: { type: "string" },
+        trash: { type: "boolean" },
+        "max-versions": { type: "string" },
+        deduplicate: { type: "boolean" },
+        table: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+    json = values.json === true;
+
+    if (values.help === true) {
+      stdout.write(USAGE);
+      return 0;
+    }
+    const [vaultPath, name, ...operands] = positionals;
+    if (vaultPath === undefined || name === undefined) {
+      throw new UsageError("missing vault or command");
+    }
+    command = name;
+
+    const commandArity: Record<string, [number, number]> = {
+      ls: [0, 1],
+      put: [2, 2],
+      get: [1, 2],
+      rm: [1, 1],
+      mv: [2, 2],
+      find: [1, 2],
+      du: [0, 1],
+      stat: [1, 1],
+      verify: [0, 1],
+    };
+    const arity = commandArity[command];
+    if (arity === undefined) {
+      throw new UsageError(`unknown command '${command}'`);
+    }
+    if (operands.length < arity[0] || operands.length > arity[1]) {
+      throw new UsageError(`wrong number of arguments for '${command}'`);
+    }
+
+    const maxVersions = parseNumber(values["max-versions"], "max-versions");
+    const page = parseNumber(values.page, "page") ?? 1;
+    const perPage = parseNumber(values["per-page"], "per-page") ?? 20;
+    const key = values.key ?? process.env.SQLAR_VAULT_KEY;
+    const encryptionKey =
+      key === undefined || key === "" ? undefined : Buffer.from(key, "hex");
+
+    if (command !== "put" && !fs.existsSync(vaultPath)) {
+      return fail({ success: false, error: "VaultNotFound" }, vaultPath);
+    }
+    const tableName = values.table ?? "sqlar";
+    let storage: FileStorageManager;
+    try {
+      storage = await createSQLiteVault(vaultPath, {
+        tableName,
+        readonly: READ_COMMANDS.includes(command),
+        fullTextSearch:
+          fs.existsSync(vaultPath) && hasFullTextIndex(vaultPath, tableName),
+        trash: values.trash,
+        maxVersions,
+        deduplicate: values.deduplicate,
+        encryptionKey,
+      });
+    } catch (error) {
+      return fail(
+        { success: false, error: (error as Error).message },
+        vaultPath,
+      );
+    }
+
+    switch (command) {
+      case "ls": {
+        const dir = splitPath(operands[0] ?? "/");
+        if (values.recursive === true) {
+          const result = await storage.queryFiles({
+            dir,
+            filesPerPage: perPage,
+            pageNumber: page,
+          });
+          print(
+            result,
+            result.files
+              .map(
+                (f) =>
+                  `${f.sz}\t${formatTime(f.mtime)}\t${f.fileNameWithPath}\n`,
+              )
+              .join(""),
+          );
+          return 0;
+        }
+        const result = await storage.listFiles(
+          dir,
+          perPage,
+          page,
+          "name",
+          "ASC",
+          false,
+        );
+        print(
+          result,
+          [
+            ...(result.directories ?? []).map(
+              (d) => `${d.sz}\t${formatTime(d.mtime)}\t${d.name}/\n`,
+            ),
+            ...result.files.map(
+              (f) => `${f.sz}\t${formatTime(f.mtime)}\t${f.name}\n`,
+            ),
+          ].join(""),
+        );
+        return 0;
+      }
+      case "put": {
+        const [source, target] = operands;
+        const { dir, fileName } = splitFilePath(
+          target.endsWith("/") && source !== "-"
+            ? `${target}${path.basename(source)}`
+            : target,
+        );
+        const input =
+          source === "-" ? stdin : fs.createReadStream(path.resolve(source));
+        const contentType = values["content-type"];
+        const stat = await storage.statFile(dir, fileName);
+        if (stat.success) {
+          if (values.overwrite !== true) {
+            return fail(
+              { success: false, error: "FileAlreadyExists" },
+              stat.file?.fileNameWithPath ?? target,
+            );
+          }
+          const chunks: Buffer[] = [];
+          for await (const chunk of input) {
+            chunks.push(Buffer.from(chunk as Buffer));
+          }
+          const content = Buffer.concat(chunks);
+          const result = await storage.updateFileContent(
+            dir,
+            fileName,
+            contentType === undefined
+              ? content
+              : new Blob([content], { type: contentType }),
+          );
+          if (!result.success) {
+            return fail(result, target);
+          }
+          print(
+            { ...result, sz: content.byteLength },
+            `${result.fileNameWithPath}\n`,
+          );
+          return 0;
+        }
+        let sz = 0;
+        await pipeline(
+          input,
+          async function* (chunks: AsyncIterable<Buffer>) {
+            for await (const chunk of chunks) {
+              sz += chunk.byteLength;
+              yield chunk;
+            }
+          },
+          storage.createWriteStream(dir, fileName, { contentType }),
+        );
+        const stored = await storage.statFile(dir, fileName);
+        print(
+          {
+            success: true,
+            fileNameWithPath: stored.file?.fileNameWithPath,
+            sz,
+          },
+          `${stored.file?.fileNameWithPath}\n`,
+        );
+        return 0;
+      }
+      case "get": {
+        const [source, target = "-"] = operands;
+        const { dir, fileName } = splitFilePath(source);
+        const stat = await storage.statFile(dir, fileName);
+        if (!stat.success || stat.file === undefined) {
+          return fail(stat, source);
+        }
+        const content = storage.createReadStream(dir, fileName);
+        if (target === "-") {
+          await pipeline(content, stdout, { end: false });
+          return 0;
+        }
+        let localPath = path.resolve(target);
+        if (fs.existsSync(localPath) && fs.statSync(localPath).isDirectory()) {
+          localPath = path.join(localPath, fileName);
+        }
+        await pipeline(content, fs.createWriteStream(localPath));
+        fs.utimesSync(localPath, stat.file.mtime, stat.file.mtime);
+        print(
+          {
+            success: true,
+            fileNameWithPath: stat.file.fileNameWithPath,
+            path: localPath,
+            sz: stat.file.sz,
+          },
+          `${localPath}\n`,
+        );
+        return 0;
+      }
+      case "rm": {
+        if (values.recursive === true) {
+          const result = await storage.deleteDirectoryFiles(
+            splitPath(operands[0]),
+            true,
+          );
+          if (!result.success) {
+            return fail(result, operands[0]);
+          }
+          print(result, "");
+          return 0;
+        }
+        const { dir, fileName } = splitFilePath(operands[0]);
+        const result = await storage.deleteFile(dir, fileName);
+        if (!result.success) {
+          return fail(result, operands[0]);
+        }
+        print(result, "");
+        return 0;
+      }
+      case "mv": {
+        const [source, target] = operands;
+        if (values.recursive === true) {
+          const result = await storage.renameDirectory(
+            splitPath(source),
+            splitPath(target),
+          );
+          if (!result.success) {
+            return fail(result, source);
+          }
+          print(result, `${result.newDirectoryWithPath}\n`);
+          return 0;
+        }
+        const { dir, fileName } = splitFilePath(source);
+        const destination = splitFilePath(
+          target.endsWith("/") ? `${target}${fileName}` : target,
+        );
+        const result = await storage.renameFile(
+          dir,
+          fileName,
+          destination.fileName,
+          destination.dir,
+        );
+        if (!result.success) {
+          return fail(result, source);
+        }
+        print(
+          result,
+          `/${[...destination.dir, destination.fileName].join("/")}\n`,
+        );
+        return 0;
+      }
+      case "find": {
+        const [namePattern, dir = "/"] = operands;
+        const files = [];
+        for await (const file of allFiles(storage, {
+          dir: splitPath(dir),
+          namePattern,
+        })) {
+          files.push(file);
+        }
+        print(
+          { files, totalFiles: files.length, success: true },
+          files.map((f) => `${f.fileNameWithPath}\n`).join(""),
+        );
+        return 0;
+      }
+      case "du": {
+        const dir = splitPath(operands[0] ?? "/");
+        const directories = [];
+        let totalFiles = 0;
+        let totalSize = 0;
+        for (let pageNumber = 1; ; pageNumber++) {
+          const result = await storage.listFiles(
+            dir,
+            PAGE_SIZE,
+            pageNumber,
+            "name",
+            "ASC",
+            false,
+          );
+          for (const d of result.directories ?? []) {
+            directories.push({
+              directoryWithPath: d.directoryWithPath,
+              totalFiles: d.totalFiles,
+              sz: d.sz,
+            });
+            totalFiles += d.totalFiles;
+            totalSize += d.sz;
+          }
+          for (const f of result.files) {
+            totalFiles += 1;
+            totalSize += f.sz;
+          }
+          if (
+            result.files.length + (result.directories ?? []).length <
+            PAGE_SIZE
+          ) {
+            break;
+          }
+        }
+        const directoryWithPath = `/${dir.join("/")}`;
+        print(
+          {
+            directoryWithPath,
+            directories,
+            totalFiles,
+            totalSize,
+            success: true,
+          },
+          [
+            ...directories.map(
+              (d) => `${d.sz}\t${d.totalFiles}\t${d.directoryWithPath}\n`,
+            ),
+            `${totalSize}\t${totalFiles}\t${directoryWithPath}\n`,
+          ].join(""),
+        );
+        return 0;
+      }
+      case "stat": {
+        const { dir, fileName } = splitFilePath(operands[0]);
+        const result = await storage.statFile(dir, fileName);
+        if (!result.success || result.file === undefined) {
+          return fail(result, operands[0]);
+        }
+        const { file } = result;
+        print(
+          result,
+          [
+            `name: ${file.fileNameWithPath}`,
+            `size: ${file.sz}`,
+            `mode: ${(file.mode & 0o7777).toString(8)}`,
+            `mtime: ${formatTime(file.mtime)}`,
+            `contentType: ${file.contentType ?? "-"}`,
+            `checksum: ${file.checksum ?? "-"}`,
+            `tags: ${JSON.stringify(file.tags)}`,
+          ]
+            .map((line) => `${line}\n`)
+            .join(""),
+        );
+        return 0;
+      }
+      case "verify": {
+        const dir = splitPath(operands[0] ?? "/");
+        const failures = [];
+        let totalFiles = 0;
+        for await (const file of allFiles(storage, { dir })) {
+          totalFiles++;
+          const fileDir = splitPath(file.fileNameWithPath);
+          const fileName = fileDir.pop() ?? "";
+          const hash = createHash("sha256");
+          let sz = 0;
+          let error: string | undefined;
+          try {
+            for await (const chunk of storage.createReadStream(
+              fileDir,
+              fileName,
+            )) {
+              hash.update(chunk as Buffer);
+              sz += (chunk as Buffer).byteLength;
+            }
+            if (sz !== file.sz) {
+              error = "SizeMismatch";
+            } else if (
+              file.checksum !== null &&
+              hash.digest("hex") !== file.checksum
+            ) {
+              error = "ChecksumMismatch";
+            }
+          } catch (readError) {
+            error =
+              (readError as Error).message === "DecryptionFailed"
+                ? "DecryptionFailed"
+                : "ReadFailed";
+          }
+          if (error !== undefined) {
+            failures.push({ fileNameWithPath: file.fileNameWithPath, error });
+          }
+        }
+        const result = {
+          totalFiles,
+          totalFailed: failures.length,
+          failures,
+          success: failures.length === 0,
+        };
+        print(
+          result,
+          [
+            ...failures.map((f) => `${f.error}\t${f.fileNameWithPath}\n`),
+            `${totalFiles - failures.length}/${totalFiles} files verified\n`,
+          ].join(""),
+        );
+        return result.success ? 0 : 1;
+      }
+    }
+    return 0;
+  } catch (error) {
+    if (
+      error instanceof UsageError ||
+      (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS") === true
+    ) {
+      stderr.write(`sqlar-vault: ${(error as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+    return fail({ success: false, error: (error as Error).message });
+  }
+}
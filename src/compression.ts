@@ -0,0 +1,48 @@
+import { type Database } from "better-sqlite3";
+import { deflateSync, inflateSync } from "zlib";
+
+/**
+ * How the SQL functions `sqlar_compress` and `sqlar_uncompress` are provided to a vault:
+ * - 'extension' loads the native sqlar extension.
+ * - 'zlib' implements them with the zlib of Node.js, for the platforms where the extension can not be loaded.
+ * - 'auto' loads the extension and falls back to 'zlib' when it can not be loaded.
+ * Both store the same `data` and `sz`, so a vault written with one of them can be read with the other.
+ */
+export type SqlarFunctions = "auto" | "extension" | "zlib";
+
+/**
+ * Compresses a content like `sqlar_compress`: a BLOB is compressed with zlib (in the format of `compress()`),
+ * unless it does not get smaller, and any other value is returned as is.
+ * The zlib compression level goes from 0 to 9 (Default is -1, the default level of zlib).
+ */
+export function sqlarCompress(data: unknown, level = -1): unknown {
+  if (!Buffer.isBuffer(data)) {
+    return data;
+  }
+  const compressed = deflateSync(data, { level });
+  return compressed.byteLength < data.byteLength ? compressed : data;
+}
+
+/**
+ * Decompresses a content like `sqlar_uncompress`: the content is returned as is when its length is its original size `sz`.
+ */
+export function sqlarUncompress(data: unknown, sz: unknown): unknown {
+  if (
+    !Buffer.isBuffer(data) ||
+    Number(sz) <= 0 ||
+    data.byteLength === Number(sz)
+  ) {
+    return data;
+  }
+  return inflateSync(data);
+}
+
+/**
+ * Defines `sqlar_compress` and `sqlar_uncompress` in JS on a database, in place of the sqlar extension.
+ */
+export function defineSqlarFunctions(db: Database) {
+  db.function("sqlar_compress", { deterministic: true }, (data: unknown) =>
+    sqlarCompress(data),
+  );
+  db.function("sqlar_uncompress", { deterministic: true }, sqlarUncompress);
+}
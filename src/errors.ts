@@ -0,0 +1,132 @@
+import BetterDatabase from "better-sqlite3";
+
+/**
+ * The error codes of the vault, given as `error` by the methods that fail and as `code` by a `VaultError`.
+ * Example: VaultErrorCodes.FileNotFound | "FileNotFound"
+ */
+export const VaultErrorCodes = {
+  FileNotFound: "FileNotFound",
+  FileAlreadyExists: "FileAlreadyExists",
+  DirectoryNotFound: "DirectoryNotFound",
+  DirectoryAlreadyExists: "DirectoryAlreadyExists",
+  DirectoryAlreadyEmpty: "DirectoryAlreadyEmpty",
+  InvalidPath: "InvalidPath",
+  RangeNotSatisfiable: "RangeNotSatisfiable",
+  VersionNotFound: "VersionNotFound",
+  TrashEntryNotFound: "TrashEntryNotFound",
+  QuotaExceeded: "QuotaExceeded",
+  BatchRolledBack: "BatchRolledBack",
+  FullTextSearchDisabled: "FullTextSearchDisabled",
+  InvalidQuery: "InvalidQuery",
+  ReadFailed: "ReadFailed",
+  WriteFailed: "WriteFailed",
+  InvalidArchive: "InvalidArchive",
+  UnsupportedArchive: "UnsupportedArchive",
+  DecryptionFailed: "DecryptionFailed",
+  EncryptionDisabled: "EncryptionDisabled",
+  EncryptionKeyRequired: "EncryptionKeyRequired",
+  InvalidEncryptionKey: "InvalidEncryptionKey",
+  VaultNotEncrypted: "VaultNotEncrypted",
+  InvalidTableName: "InvalidTableName",
+  InvalidPragma: "InvalidPragma",
+  ExtensionNotLoaded: "ExtensionNotLoaded",
+  StorageBusy: "StorageBusy",
+  StorageFull: "StorageFull",
+  StorageCorrupted: "StorageCorrupted",
+  ReadOnlyVault: "ReadOnlyVault",
+  StorageError: "StorageError",
+} as const;
+
+export type VaultErrorCode =
+  (typeof VaultErrorCodes)[keyof typeof VaultErrorCodes];
+
+/**
+ * SQLite result codes (and their extended codes) mapped to the error codes of the vault,
+ * any other SQLite error is a 'StorageError'.
+ */
+const SQLITE_ERROR_CODES: Array<[string, VaultErrorCode]> = [
+  ["SQLITE_BUSY", "StorageBusy"],
+  ["SQLITE_LOCKED", "StorageBusy"],
+  ["SQLITE_FULL", "StorageFull"],
+  ["SQLITE_READONLY", "ReadOnlyVault"],
+  ["SQLITE_CORRUPT", "StorageCorrupted"],
+  ["SQLITE_NOTADB", "StorageCorrupted"],
+];
+
+/**
+ * An error of the vault, its message is its code.
+ * It is thrown by the methods of a vault created with the `throwOnError` option instead of returning
+ * `{ success: false, error }`, and always when the database fails (like 'StorageBusy' or 'StorageFull').
+ */
+export class VaultError extends Error {
+  readonly code: VaultErrorCode;
+  readonly cause?: unknown;
+  /**
+   * The size of the file of a 'RangeNotSatisfiable' error, to answer it with 'Content-Range: bytes *\/<sz>'.
+   */
+  readonly sz?: number;
+
+  constructor(code: VaultErrorCode, cause?: unknown, sz?: number) {
+    super(code);
+    this.name = "VaultError";
+    this.code = code;
+    this.cause = cause;
+    this.sz = sz;
+  }
+}
+
+/**
+ * Converts an error of SQLite to a `VaultError` with the matching code (keeping it as `cause`),
+ * any other error is returned as is.
+ */
+export function toVaultError(error: unknown): unknown {
+  if (!(error instanceof BetterDatabase.SqliteError)) {
+    return error;
+  }
+  const [, code] = SQLITE_ERROR_CODES.find(([prefix]) =>
+    error.code.startsWith(prefix),
+  ) ?? [undefined, "StorageError"];
+  return new VaultError(code, error);
+}
+
+export type VaultSuccess<T extends object = object> = {
+  success: true;
+  error?: undefined;
+} & T;
+
+export type VaultFailure<
+  E extends VaultErrorCode = VaultErrorCode,
+  T extends object = object,
+> = {
+  success: false;
+  error: E;
+} & T;
+
+/**
+ * The result of a method that can fail, narrowed by `success`.
+ * The properties of a successful result are undefined in a failed one, so they can be destructured from both.
+ * Example: VaultResult<{ file: FileInfo }, "FileNotFound">
+ */
+export type VaultResult<
+  T extends object = object,
+  E extends VaultErrorCode = VaultErrorCode,
+> = VaultSuccess<T> | VaultFailure<E, { [K in keyof T]?: undefined }>;
+
+/**
+ * The result of a batch method, with the result of each item in their order.
+ * The batch fails with the error of its first failed item, none of its items are then applied:
+ * the items that succeeded before being rolled back fail with the error 'BatchRolledBack'.
+ */
+export type VaultBatchResult<
+  T extends object = object,
+  E extends VaultErrorCode = VaultErrorCode,
+> =
+  | VaultSuccess<{ files: Array<VaultSuccess<T>> }>
+  | VaultFailure<
+      E,
+      {
+        files: Array<
+          VaultFailure<E | "BatchRolledBack", { [K in keyof T]?: undefined }>
+        >;
+      }
+    >;
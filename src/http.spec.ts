@@ -0,0 +1,199 @@
+import { describe, it, beforeAll, afterAll, expect } from "vitest";
+import http from "node:http";
+import { type AddressInfo } from "node:net";
+import { createSQLiteVault } from "./FileStorageManager.ts";
+import { createHttpHandler } from "./http.ts";
+import { deleteStorageDB } from "./tests-utils/fixtures/storageDB.ts";
+
+describe("HTTP handler", () => {
+  const httpStorageDBName = `test_http_${Date.now()}.sqlar`;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const storage = await createSQLiteVault(httpStorageDBName);
+    await storage.storeFile(
+      ["docs"],
+      "hello.txt",
+      Buffer.from("Hello World!"),
+      1700000000,
+    );
+    await storage.storeFile(["docs", "images"], "logo.png", Buffer.from("png"));
+    server = http.createServer(
+      createHttpHandler(storage, { basePath: "/storage" }),
+    );
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/storage`;
+  });
+
+  it("should retrieve a file with its validators and content type", async () => {
+    const response = await fetch(`${baseUrl}/files/docs/hello.txt`);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("Hello World!");
+    expect(response.headers.get("content-type")).toBe("text/plain");
+    expect(response.headers.get("content-length")).toBe("12");
+    expect(response.headers.get("etag")).toBe(`"${(1700000000).toString(16)}"`);
+    expect(response.headers.get("last-modified")).toBe(
+      new Date(1700000000 * 1000).toUTCString(),
+    );
+
+    const head = await fetch(`${baseUrl}/files/docs/images/logo.png`, {
+      method: "HEAD",
+    });
+
+    expect(head.status).toBe(200);
+    expect(head.headers.get("content-type")).toBe("image/png");
+
+    const missing = await fetch(`${baseUrl}/files/docs/missing.txt`);
+
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({
+      success: false,
+      error: "FileNotFound",
+    });
+  });
+
+  it("should answer conditional requests with 304", async () => {
+    const { headers } = await fetch(`${baseUrl}/files/docs/hello.txt`);
+
+    const byTag = await fetch(`${baseUrl}/files/docs/hello.txt`, {
+      headers: { "If-None-Match": headers.get("etag") ?? "" },
+    });
+
+    expect(byTag.status).toBe(304);
+
+    const byDate = await fetch(`${baseUrl}/files/docs/hello.txt`, {
+      headers: { "If-Modified-Since": headers.get("last-modified") ?? "" },
+    });
+
+    expect(byDate.status).toBe(304);
+
+    const modified = await fetch(`${baseUrl}/files/docs/hello.txt`, {
+      headers: { "If-Modified-Since": new Date(0).toUTCString() },
+    });
+
+    expect(modified.status).toBe(200);
+  });
+
+  it("should retrieve a byte range of a file", async () => {
+    const range = await fetch(`${baseUrl}/files/docs/hello.txt`, {
+      headers: { Range: "bytes=6-10" },
+    });
+
+    expect(range.status).toBe(206);
+    expect(range.headers.get("content-range")).toBe("bytes 6-10/12");
+    expect(await range.text()).toBe("World");
+
+    const suffix = await fetch(`${baseUrl}/files/docs/hello.txt`, {
+      headers: { Range: "bytes=-6" },
+    });
+
+    expect(await suffix.text()).toBe("World!");
+
+    const outOfRange = await fetch(`${baseUrl}/files/docs/hello.txt`, {
+      headers: { Range: "bytes=20-" },
+    });
+
+    expect(outOfRange.status).toBe(416);
+    expect(outOfRange.headers.get("content-range")).toBe("bytes */12");
+
+    const staleRange = await fetch(`${baseUrl}/files/docs/hello.txt`, {
+      headers: { Range: "bytes=6-10", "If-Range": '"stale"' },
+    });
+
+    expect(staleRange.status).toBe(200);
+    expect(await staleRange.text()).toBe("Hello World!");
+  });
+
+  it("should store, replace and delete a file", async () => {
+    const created = await fetch(`${baseUrl}/files/docs/new%20file.json`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: '{"a":1}',
+    });
+
+    expect(created.status).toBe(201);
+    expect(await created.json()).toMatchObject({
+      fileNameWithPath: "/docs/new file.json",
+    });
+
+    const sanitized = await fetch(`${baseUrl}/files/my%20docs/a.txt`, {
+      method: "PUT",
+      body: "a",
+    });
+
+    expect(await sanitized.json()).toMatchObject({
+      fileNameWithPath: "/my_docs/a.txt",
+    });
+    expect((await fetch(`${baseUrl}/files/my_docs/a.txt`)).status).toBe(200);
+
+    const conflict = await fetch(`${baseUrl}/files/docs/new%20file.json`, {
+      method: "PUT",
+      headers: { "If-None-Match": "*" },
+      body: "{}",
+    });
+
+    expect(conflict.status).toBe(412);
+
+    const replaced = await fetch(`${baseUrl}/files/docs/new%20file.json`, {
+      method: "PUT",
+      body: Buffer.from('{"a":2}'),
+    });
+
+    expect(replaced.status).toBe(200);
+
+    const retrieved = await fetch(`${baseUrl}/files/docs/new%20file.json`);
+
+    expect(retrieved.headers.get("content-type")).toBe("application/json");
+    expect(await retrieved.json()).toEqual({ a: 2 });
+
+    const deleted = await fetch(`${baseUrl}/files/docs/new%20file.json`, {
+      method: "DELETE",
+    });
+
+    expect(deleted.status).toBe(204);
+    expect((await fetch(`${baseUrl}/files/docs/new%20file.json`)).status).toBe(
+      404,
+    );
+  });
+
+  it("should list a directory by page", async () => {
+    const response = await fetch(`${baseUrl}/dirs/docs?page=1&perPage=1`);
+
+    expect(response.status).toBe(200);
+
+    const listing = (await response.json()) as {
+      directories: unknown[];
+      files: unknown[];
+    };
+
+    expect(listing).toMatchObject({
+      totalFiles: 1,
+      totalDirectories: 1,
+      currentPage: 1,
+    });
+    expect(listing.directories).toHaveLength(1);
+    expect(listing.files).toHaveLength(0);
+
+    const secondPage = (await (
+      await fetch(`${baseUrl}/dirs/docs?page=2&perPage=1`)
+    ).json()) as { files: unknown[] };
+
+    expect(secondPage.files[0]).toMatchObject({ name: "hello.txt" });
+  });
+
+  it("should reject invalid paths and methods", async () => {
+    expect((await fetch(`${baseUrl}/files/docs%2Fx`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/other/docs/hello.txt`)).status).toBe(404);
+    expect(
+      (await fetch(`${baseUrl}/files/docs/hello.txt`, { method: "POST" }))
+        .status,
+    ).toBe(405);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await deleteStorageDB(httpStorageDBName);
+  });
+});
@@ -0,0 +1,452 @@
+import { type IncomingMessage, type ServerResponse } from "http";
+import { pipeline } from "stream/promises";
+import { type FileStorageManager } from "./FileStorageManager.ts";
+import { VaultError } from "./errors.ts";
+
+/**
+ * Options of `createHttpHandler`.
+ */
+export interface HttpHandlerOptions {
+  /**
+   * The path the handler is mounted on, it is removed from the request path (Default is "").
+   * Example: "/storage" | 'GET /storage/files/root/a.txt' retrieves '/root/a.txt'.
+   */
+  basePath?: string;
+  /**
+   * The entries per page of a directory listing when the request has no 'perPage' (Default is 20).
+   */
+  entriesPerPage?: number;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  css: "text/css",
+  csv: "text/csv",
+  gif: "image/gif",
+  htm: "text/html",
+  html: "text/html",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  js: "text/javascript",
+  json: "application/json",
+  md: "text/markdown",
+  mjs: "text/javascript",
+  mp3: "audio/mpeg",
+  mp4: "video/mp4",
+  pdf: "application/pdf",
+  png: "image/png",
+  svg: "image/svg+xml",
+  tar: "application/x-tar",
+  txt: "text/plain",
+  wasm: "application/wasm",
+  webm: "video/webm",
+  webp: "image/webp",
+  xml: "application/xml",
+  zip: "application/zip",
+};
+
+const ERROR_STATUS: Record<string, number> = {
+  InvalidPath: 400,
+  FileNotFound: 404,
+  NotFound: 404,
+  MethodNotAllowed: 405,
+  FileAlreadyExists: 409,
+  PreconditionFailed: 412,
+  RangeNotSatisfiable: 416,
+  DecryptionFailed: 500,
+  ReadOnlyVault: 403,
+  StorageBusy: 503,
+  StorageFull: 507,
+  QuotaExceeded: 507,
+};
+
+/**
+ * Guesses the content type of a file from its extension, "application/octet-stream" when unknown.
+ */
+export function contentTypeOf(fileName: string): string {
+  const extension = fileName.split(".").at(-1)?.toLowerCase() ?? "";
+  return CONTENT_TYPES[extension] ?? "application/octet-stream";
+}
+
+/**
+ * Decodes the segments of a request path, or returns undefined when a segment is "." or "..",
+ * or contains an encoded "/" or a NUL character.
+ */
+export function decodePath(requestPath: string): string[] | undefined {
+  const segments: string[] = [];
+  for (const segment of requestPath.split("/")) {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(segment);
+    } catch {
+      return undefined;
+    }
+    if (
+      decoded === "." ||
+      decoded === ".." ||
+      decoded.includes("/") ||
+      decoded.includes("\0")
+    ) {
+      return undefined;
+    }
+    if (decoded !== "") {
+      segments.push(decoded);
+    }
+  }
+  return segments;
+}
+
+/**
+ * The validator of a file, derived from its modified time.
+ */
+export function entityTag(file: { mtime: number }): string {
+  return `"${file.mtime.toString(16)}"`;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  const json = JSON.stringify(body);
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Content-Length": Buffer.byteLength(json),
+  });
+  res.end(json);
+}
+
+/**
+ * Answers a request with an error code of the vault.
+ */
+export type ErrorSender = (
+  res: ServerResponse,
+  error: string,
+  headers?: Record<string, string>,
+) => void;
+
+/**
+ * Answers a request with an error code of the vault as JSON, with the status of the error (Default is 500).
+ */
+export function sendError(
+  res: ServerResponse,
+  error: string,
+  headers: Record<string, string> = {},
+  status = ERROR_STATUS[error] ?? 500,
+) {
+  const json = JSON.stringify({ success: false, error });
+  res.writeHead(status, {
+    ...headers,
+    "Content-Type": "application/json; charset=utf-8",
+    "Content-Length": Buffer.byteLength(json),
+  });
+  res.end(json);
+}
+
+function isNotModified(
+  req: IncomingMessage,
+  etag: string,
+  lastModified: number,
+) {
+  const ifNoneMatch = req.headers["if-none-match"];
+  if (ifNoneMatch !== undefined) {
+    return (
+      ifNoneMatch.trim() === "*" ||
+      ifNoneMatch
+        .split(",")
+        .some((tag) => tag.trim().replace(/^W\//, "") === etag)
+    );
+  }
+  const ifModifiedSince = Date.parse(req.headers["if-modified-since"] ?? "");
+  return (
+    !Number.isNaN(ifModifiedSince) && lastModified * 1000 <= ifModifiedSince
+  );
+}
+
+/**
+ * Parses a 'Range' header with a single byte range into the first and last (inclusive) byte positions.
+ * It returns null when the header is missing or has several ranges (the whole file is sent)
+ * and "RangeNotSatisfiable" when the range is malformed or outside of the file.
+ */
+function parseRange(header: string | undefined, sz: number) {
+  if (header === undefined) {
+    return null;
+  }
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (match === null) {
+    return header.trim().startsWith("bytes=") && header.includes(",")
+      ? null
+      : "RangeNotSatisfiable";
+  }
+  const [, first, last] = match;
+  if (first === "" && last === "") {
+    return "RangeNotSatisfiable";
+  }
+  const range =
+    first === ""
+      ? { start: Math.max(sz - Number(last), 0), end: sz - 1 }
+      : {
+          start: Number(first),
+          end: last === "" ? sz - 1 : Math.min(Number(last), sz - 1),
+        };
+  if (range.start > range.end || range.start >= sz) {
+    return "RangeNotSatisfiable";
+  }
+  return range;
+}
+
+/**
+ * Wraps an async handler into a request listener, the message of an error thrown by the handler is answered by `onError`
+ * (Default is `sendError`, with 'InternalError' when it is not an error code of the vault) along with the
+ * 'Content-Range' of a 'RangeNotSatisfiable' error,
+ * or the response is ended when it has already started.
+ */
+export function toRequestListener(
+  handle: (req: IncomingMessage, res: ServerResponse) => Promise<void>,
+  onError: ErrorSender = (res, error, headers) => {
+    sendError(res, error in ERROR_STATUS ? error : "InternalError", headers);
+  },
+) {
+  return (req: IncomingMessage, res: ServerResponse) => {
+    handle(req, res).catch((error: Error) => {
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      onError(
+        res,
+        error.message,
+        error instanceof VaultError && error.sz !== undefined
+          ? { "Content-Range": `bytes */${error.sz}` }
+          : {},
+      );
+    });
+  };
+}
+
+/**
+ * Answers a GET or HEAD request with a file of the vault, with ETag and Last-Modified validators,
+ * conditional requests ('If-None-Match', 'If-Modified-Since') and a single byte range ('Range', 'If-Range').
+ * The errors ('FileNotFound' and 'RangeNotSatisfiable') are answered by `onError` (Default is `sendError`).
+ */
+export async function sendFile(
+  storage: FileStorageManager,
+  req: IncomingMessage,
+  res: ServerResponse,
+  dir: string[],
+  fileName: string,
+  onError: ErrorSender = sendError,
+) {
+  const { file, error } = await storage.statFile(dir, fileName);
+  if (file === undefined) {
+    onError(res, error ?? "FileNotFound");
+    return;
+  }
+  const etag = entityTag(file);
+  const headers = {
+    ETag: etag,
+    "Last-Modified": new Date(file.mtime * 1000).toUTCString(),
+    "Accept-Ranges": "bytes",
+    "Content-Type": file.contentType ?? contentTypeOf(fileName),
+  };
+  if (isNotModified(req, etag, file.mtime)) {
+    res.writeHead(304, { ETag: headers.ETag });
+    res.end();
+    return;
+  }
+
+  const ifRange = req.headers["if-range"]?.toString();
+  const range =
+    ifRange === undefined ||
+    ifRange === etag ||
+    Date.parse(ifRange) === file.mtime * 1000
+      ? parseRange(req.headers.range, file.sz)
+      : null;
+  if (range === "RangeNotSatisfiable") {
+    onError(res, range, { "Content-Range": `bytes */${file.sz}` });
+    return;
+  }
+  if (range === null) {
+    res.writeHead(200, { ...headers, "Content-Length": file.sz });
+  } else {
+    res.writeHead(206, {
+      ...headers,
+      "Content-Length": range.end - range.start + 1,
+      "Content-Range": `bytes ${range.start}-${range.end}/${file.sz}`,
+    });
+  }
+  if (req.method === "HEAD") {
+    res.end();
+    return;
+  }
+  await pipeline(storage.createReadStream(dir, fileName, range ?? {}), res);
+}
+
+/**
+ * Stores the body of a PUT request as a file in blocks, or replaces the content of an existing file as it is received.
+ * The 'Content-Type' header is stored as the content type, and 'If-Match' and 'If-None-Match: *' are checked first.
+ * The body is read from `body` when the request body is encoded (Default is the request itself).
+ * @returns An object indicating the success of the operation and whether the file was 'created'.
+ * If a precondition does not hold, it returns an error 'PreconditionFailed'.
+ */
+export async function receiveFile(
+  storage: FileStorageManager,
+  req: IncomingMessage,
+  dir: string[],
+  fileName: string,
+  body: AsyncIterable<Buffer> = req,
+) {
+  const contentType = req.headers["content-type"];
+  const ifMatch = req.headers["if-match"];
+  const { file } = await storage.statFile(dir, fileName);
+  if (file === undefined) {
+    if (ifMatch !== undefined) {
+      return { success: false, error: "PreconditionFailed" };
+    }
+  } else {
+    const etag = entityTag(file);
+    if (
+      req.headers["if-none-match"] === "*" ||
+      (ifMatch !== undefined &&
+        ifMatch !== "*" &&
+        !ifMatch.split(",").some((tag) => tag.trim() === etag))
+    ) {
+      return { success: false, error: "PreconditionFailed" };
+    }
+  }
+
+  await pipeline(
+    body,
+    storage.createWriteStream(dir, fileName, {
+      contentType,
+      blockStorage: true,
+      overwrite: file !== undefined,
+    }),
+  );
+  const stored = await storage.statFile(dir, fileName);
+  if (!stored.success) {
+    return stored;
+  }
+  return {
+    success: true,
+    created: file === undefined,
+    fileName,
+    fileNameWithPath: stored.file.fileNameWithPath,
+  };
+}
+
+async function handleFile(
+  storage: FileStorageManager,
+  req: IncomingMessage,
+  res: ServerResponse,
+  dir: string[],
+  fileName: string,
+) {
+  switch (req.method) {
+    case "GET":
+    case "HEAD":
+      await sendFile(storage, req, res, dir, fileName);
+      return;
+    case "PUT": {
+      const result = await receiveFile(storage, req, dir, fileName);
+      if (!result.success) {
+        sendError(res, result.error ?? "FileNotFound");
+        return;
+      }
+      const { created, ...body } = result;
+      sendJson(res, created === true ? 201 : 200, body);
+      return;
+    }
+    case "DELETE": {
+      const result = await storage.deleteFile(dir, fileName);
+      if (!result.success) {
+        sendError(res, result.error ?? "FileNotFound");
+        return;
+      }
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+  }
+  sendError(res, "MethodNotAllowed", { Allow: "GET, HEAD, PUT, DELETE" });
+}
+
+async function handleDirectory(
+  storage: FileStorageManager,
+  req: IncomingMessage,
+  res: ServerResponse,
+  dir: string[],
+  searchParams: URLSearchParams,
+  entriesPerPage: number,
+) {
+  if (req.method !== "GET") {
+    sendError(res, "MethodNotAllowed", { Allow: "GET" });
+    return;
+  }
+  const page = Number(searchParams.get("page") ?? 1);
+  const perPage = Number(searchParams.get("perPage") ?? entriesPerPage);
+  if (
+    !Number.isInteger(page) ||
+    !Number.isInteger(perPage) ||
+    page < 1 ||
+    perPage < 1
+  ) {
+    sendError(res, "InvalidPath");
+    return;
+  }
+  sendJson(
+    res,
+    200,
+    await storage.listFiles(dir, perPage, page, "name", "ASC", false),
+  );
+}
+
+/**
+ * Creates a request handler, compatible with `http.createServer` (and Express), that exposes the files of a vault:
+ * - GET and HEAD /files/*path retrieve a file, with ETag and Last-Modified validators, conditional requests
+ * ('If-None-Match', 'If-Modified-Since') and a single byte range ('Range', 'If-Range').
+ * - PUT /files/*path stores the request body, or replaces the content of an existing file (201 or 200),
+ * the 'Content-Type' header is stored as the content type. 'If-Match' and 'If-None-Match: *' are supported.
+ * - DELETE /files/*path deletes a file (204).
+ * - GET /dirs/*path?page=&perPage= lists the subdirectories and files of a directory as JSON.
+ *
+ * Errors are answered as JSON with the error code of the vault, e.g. { "success": false, "error": "FileNotFound" } with 404.
+ * @param storage - The vault to expose.
+ * @param options - (optional) The mount path and the default page size of directory listings.
+ * @returns A function that handles a request.
+ */
+export function createHttpHandler(
+  storage: FileStorageManager,
+  options: HttpHandlerOptions = {},
+) {
+  const basePath = (options.basePath ?? "").replace(/\/+$/, "");
+  const entriesPerPage = options.entriesPerPage ?? 20;
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (basePath !== "" && !`${url.pathname}/`.startsWith(`${basePath}/`)) {
+      sendError(res, "NotFound");
+      return;
+    }
+    const [, route, ...rest] = url.pathname.slice(basePath.length).split("/");
+    const segments = decodePath(rest.join("/"));
+    if (segments === undefined) {
+      sendError(res, "InvalidPath");
+      return;
+    }
+    if (route === "dirs") {
+      await handleDirectory(
+        storage,
+        req,
+        res,
+        segments,
+        url.searchParams,
+        entriesPerPage,
+      );
+      return;
+    }
+    const fileName = segments.pop();
+    if (route !== "files" || fileName === undefined) {
+      sendError(res, "NotFound");
+      return;
+    }
+    await handleFile(storage, req, res, segments, fileName);
+  };
+
+  return toRequestListener(handle);
+}
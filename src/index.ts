@@ -1,3 +1,67 @@
-import { createSQLiteVault, FileStorageManager } from "./FileStorageManager.ts";
+import { type ArchiveFormat } from "./archives.ts";
+import { defineSqlarFunctions, type SqlarFunctions } from "./compression.ts";
+import {
+  type VaultBatchResult,
+  VaultError,
+  type VaultErrorCode,
+  VaultErrorCodes,
+  type VaultFailure,
+  type VaultResult,
+  type VaultSuccess,
+} from "./errors.ts";
+import {
+  createSQLiteVault,
+  FileStorageManager,
+  type BatchFile,
+  type CompressionPolicy,
+  type DirectoryInfo,
+  type DirectoryQuota,
+  type FileInfo,
+  type FileMetadata,
+  type FileMove,
+  type FilePath,
+  type FileQuery,
+  type ImportOptions,
+  type TransferResult,
+  type VaultOptions,
+  type VaultQuota,
+} from "./FileStorageManager.ts";
+import { createHttpHandler, type HttpHandlerOptions } from "./http.ts";
+import { createS3Handler, type S3HandlerOptions } from "./s3.ts";
+import { createWebDavHandler, type WebDavHandlerOptions } from "./webdav.ts";
 
-export { createSQLiteVault, FileStorageManager };
+export {
+  createHttpHandler,
+  createS3Handler,
+  createSQLiteVault,
+  createWebDavHandler,
+  defineSqlarFunctions,
+  FileStorageManager,
+  VaultError,
+  VaultErrorCodes,
+};
+export type {
+  ArchiveFormat,
+  BatchFile,
+  CompressionPolicy,
+  DirectoryInfo,
+  DirectoryQuota,
+  FileInfo,
+  FileMetadata,
+  FileMove,
+  FilePath,
+  FileQuery,
+  HttpHandlerOptions,
+  ImportOptions,
+  S3HandlerOptions,
+  SqlarFunctions,
+  TransferResult,
+  VaultBatchResult,
+  VaultErrorCode,
+  VaultFailure,
+  VaultOptions,
+  VaultQuota,
+  VaultResult,
+  VaultSuccess,
+  WebDavHandlerOptions,
+};
@@ -0,0 +1,692 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { type IncomingMessage, type ServerResponse } from "http";
+import {
+  type FileQuery,
+  type FileStorageManager,
+} from "./FileStorageManager.ts";
+import {
+  decodePath,
+  entityTag,
+  receiveFile,
+  sendFile,
+  toRequestListener,
+} from "./http.ts";
+
+/**
+ * Options of `createS3Handler`.
+ */
+export interface S3HandlerOptions {
+  /**
+   * The access key id the requests must be signed with.
+   */
+  accessKeyId: string;
+  /**
+   * The secret access key the requests must be signed with.
+   */
+  secretAccessKey: string;
+  /**
+   * The region of the signatures, any region is accepted when omitted.
+   */
+  region?: string;
+  /**
+   * The path the handler is mounted on, it is removed from the request path (Default is "").
+   */
+  basePath?: string;
+}
+
+const S3_ERRORS: Record<string, [number, string]> = {
+  AccessDenied: [403, "Access Denied"],
+  AuthorizationHeaderMalformed: [400, "The authorization header is malformed."],
+  BucketAlreadyOwnedByYou: [409, "The bucket already exists."],
+  InternalError: [500, "We encountered an internal error."],
+  InvalidAccessKeyId: [403, "The access key id does not exist."],
+  InvalidArgument: [400, "Invalid argument."],
+  InvalidRange: [416, "The requested range is not satisfiable."],
+  InvalidRequest: [400, "Invalid request."],
+  MethodNotAllowed: [405, "The method is not allowed against this resource."],
+  NoSuchBucket: [404, "The specified bucket does not exist."],
+  NoSuchKey: [404, "The specified key does not exist."],
+  NotImplemented: [501, "The requested functionality is not implemented."],
+  PreconditionFailed: [412, "A precondition does not hold."],
+  QuotaExceeded: [403, "The storage quota has been exceeded."],
+  RequestTimeTooSkewed: [
+    403,
+    "The request time is too far from the server time.",
+  ],
+  ServiceUnavailable: [503, "Please reduce your request rate."],
+  SignatureDoesNotMatch: [
+    403,
+    "The request signature does not match the calculated signature.",
+  ],
+  XAmzContentSHA256Mismatch: [
+    400,
+    "The SHA-256 of the payload does not match x-amz-content-sha256.",
+  ],
+};
+
+const VAULT_ERRORS: Record<string, string> = {
+  DecryptionFailed: "InternalError",
+  DirectoryNotFound: "NoSuchBucket",
+  FileNotFound: "NoSuchKey",
+  InvalidPath: "InvalidArgument",
+  RangeNotSatisfiable: "InvalidRange",
+  ReadOnlyVault: "AccessDenied",
+  StorageBusy: "ServiceUnavailable",
+};
+
+const SUBRESOURCES = [
+  "acl",
+  "cors",
+  "delete",
+  "lifecycle",
+  "policy",
+  "tagging",
+  "uploadId",
+  "uploads",
+  "versioning",
+  "versions",
+];
+
+const MAX_KEYS = 1000;
+const MAX_CLOCK_SKEW = 15 * 60;
+const PAGE_SIZE = 1000;
+const EMPTY_SHA256 = createHash("sha256").digest("hex");
+
+function escapeXml(value: string) {
+  return value.replace(
+    /[&<>"']/g,
+    (character) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&apos;",
+      })[character] ?? character,
+  );
+}
+
+/**
+ * Encodes a value like the canonical requests of AWS Signature Version 4, every byte but 'A-Za-z0-9-._~' is escaped.
+ */
+function awsEncode(value: string) {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (character) => `%${character.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function sendS3Error(
+  res: ServerResponse,
+  error: string,
+  headers: Record<string, string> = {},
+) {
+  const code =
+    error in S3_ERRORS ? error : (VAULT_ERRORS[error] ?? "InternalError");
+  const [status, message] = S3_ERRORS[code];
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>\n<Error><Code>${code}</Code><Message>${escapeXml(message)}</Message></Error>`;
+  res.writeHead(status, {
+    ...headers,
+    "Content-Type": "application/xml",
+    "Content-Length": Buffer.byteLength(xml),
+  });
+  res.end(xml);
+}
+
+function sendXml(res: ServerResponse, xml: string) {
+  const body = `<?xml version="1.0" encoding="UTF-8"?>\n${xml}`;
+  res.writeHead(200, {
+    "Content-Type": "application/xml",
+    "Content-Length": Buffer.byteLength(body),
+  });
+  res.end(body);
+}
+
+function header(req: IncomingMessage, name: string) {
+  return req.headers[name]?.toString();
+}
+
+/**
+ * Verifies the AWS Signature Version 4 of a request, signed in its 'Authorization' header or in its query (presigned URL).
+ * @returns The error code of S3 when the signature is not valid, undefined otherwise.
+ */
+function verifySignature(
+  req: IncomingMessage,
+  url: URL,
+  path: string,
+  options: S3HandlerOptions,
+) {
+  const query = url.searchParams;
+  const presigned = query.has("X-Amz-Signature");
+  let credential: string;
+  let signedHeaders: string;
+  let signature: string;
+  let amzDate: string;
+  let payloadHash: string;
+
+  if (presigned) {
+    if (query.get("X-Amz-Algorithm") !== "AWS4-HMAC-SHA256") {
+      return "AuthorizationHeaderMalformed";
+    }
+    credential = query.get("X-Amz-Credential") ?? "";
+    signedHeaders = query.get("X-Amz-SignedHeaders") ?? "";
+    signature = query.get("X-Amz-Signature") ?? "";
+    amzDate = query.get("X-Amz-Date") ?? "";
+    payloadHash = "UNSIGNED-PAYLOAD";
+  } else {
+    const authorization =
+      /^AWS4-HMAC-SHA256 Credential=([^,]+), ?SignedHeaders=([^,]+), ?Signature=([0-9a-f]+)$/.exec(
+        header(req, "authorization") ?? "",
+      );
+    if (authorization === null) {
+      return header(req, "authorization") === undefined
+        ? "AccessDenied"
+        : "AuthorizationHeaderMalformed";
+    }
+    [, credential, signedHeaders, signature] = authorization;
+    amzDate = header(req, "x-amz-date") ?? "";
+    payloadHash = header(req, "x-amz-content-sha256") ?? EMPTY_SHA256;
+  }
+
+  const [accessKeyId, date, region, service, terminator] =
+    credential.split("/");
+  if (
+    service !== "s3" ||
+    terminator !== "aws4_request" ||
+    !/^\d{8}T\d{6}Z$/.test(amzDate) ||
+    !amzDate.startsWith(date)
+  ) {
+    return "AuthorizationHeaderMalformed";
+  }
+  if (accessKeyId !== options.accessKeyId) {
+    return "InvalidAccessKeyId";
+  }
+  if (options.region !== undefined && region !== options.region) {
+    return "AuthorizationHeaderMalformed";
+  }
+  const signedAt =
+    Date.UTC(
+      Number(amzDate.slice(0, 4)),
+      Number(amzDate.slice(4, 6)) - 1,
+      Number(amzDate.slice(6, 8)),
+      Number(amzDate.slice(9, 11)),
+      Number(amzDate.slice(11, 13)),
+      Number(amzDate.slice(13, 15)),
+    ) / 1000;
+  const now = Date.now() / 1000;
+  if (presigned) {
+    const expires = Number(query.get("X-Amz-Expires") ?? 0);
+    if (now > signedAt + expires || signedAt > now + MAX_CLOCK_SKEW) {
+      return "AccessDenied";
+    }
+  } else if (Math.abs(now - signedAt) > MAX_CLOCK_SKEW) {
+    return "RequestTimeTooSkewed";
+  }
+
+  const canonicalQuery = [...query.entries()]
+    .filter(([key]) => key !== "X-Amz-Signature")
+    .map(([key, value]) => [awsEncode(key), awsEncode(value)])
+    .sort(([a, aValue], [b, bValue]) =>
+      a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1,
+    )
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  const canonicalHeaders = signedHeaders
+    .split(";")
+    .map(
+      (name) =>
+        `${name}:${(header(req, name) ?? "").trim().replace(/\s+/g, " ")}\n`,
+    )
+    .join("");
+  let canonicalUri: string;
+  try {
+    canonicalUri = path
+      .split("/")
+      .map((segment) => awsEncode(decodeURIComponent(segment)))
+      .join("/");
+  } catch {
+    return "InvalidArgument";
+  }
+  const canonicalRequest = [
+    req.method,
+    canonicalUri,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    `${date}/${region}/s3/aws4_request`,
+    createHash("sha256").update(canonicalRequest).digest("hex"),
+  ].join("\n");
+  const signingKey = [date, region, "s3", "aws4_request"].reduce<
+    Buffer | string
+  >(
+    (key, data) => createHmac("sha256", key).update(data).digest(),
+    `AWS4${options.secretAccessKey}`,
+  );
+  const expected = createHmac("sha256", signingKey)
+    .update(stringToSign)
+    .digest();
+  const received = Buffer.from(signature, "hex");
+  if (
+    received.byteLength !== expected.byteLength ||
+    !timingSafeEqual(received, expected)
+  ) {
+    return "SignatureDoesNotMatch";
+  }
+  return undefined;
+}
+
+/**
+ * Decodes an 'aws-chunked' body, the chunk signatures and trailing checksums are skipped.
+ */
+async function* decodeAwsChunked(source: AsyncIterable<Buffer>) {
+  let buffered = Buffer.alloc(0);
+  let remaining = -1;
+  for await (const chunk of source) {
+    buffered = Buffer.concat([buffered, chunk]);
+    while (true) {
+      if (remaining === -1) {
+        const lineEnd = buffered.indexOf("\r\n");
+        if (lineEnd === -1) {
+          break;
+        }
+        const size = parseInt(
+          buffered.subarray(0, lineEnd).toString().split(";")[0],
+          16,
+        );
+        if (Number.isNaN(size)) {
+          throw new Error("InvalidRequest");
+        }
+        buffered = buffered.subarray(lineEnd + 2);
+        if (size === 0) {
+          return;
+        }
+        remaining = size;
+      }
+      if (buffered.byteLength < remaining + 2) {
+        break;
+      }
+      yield buffered.subarray(0, remaining);
+      buffered = buffered.subarray(remaining + 2);
+      remaining = -1;
+    }
+  }
+  throw new Error("InvalidRequest");
+}
+
+/**
+ * Passes a body through, and fails at its end when its SHA-256 is not the expected one.
+ */
+async function* verifyPayload(source: AsyncIterable<Buffer>, expected: string) {
+  const hash = createHash("sha256");
+  for await (const chunk of source) {
+    hash.update(chunk);
+    yield chunk;
+  }
+  if (hash.digest("hex") !== expected) {
+    throw new Error("XAmzContentSHA256Mismatch");
+  }
+}
+
+async function* listKeys(
+  storage: FileStorageManager,
+  bucket: string,
+  prefix: string,
+  after: string,
+) {
+  const prefixDir = prefix.split("/").slice(0, -1);
+  const query: FileQuery = {
+    dir: [bucket, ...prefixDir],
+    after: `/${bucket}/${after}`,
+    filesPerPage: PAGE_SIZE,
+  };
+  for (;;) {
+    const { files } = await storage.queryFiles(query);
+    for (const file of files) {
+      const key = file.fileNameWithPath.slice(bucket.length + 2);
+      if (key.startsWith(prefix)) {
+        yield { key, file };
+      }
+    }
+    if (files.length < PAGE_SIZE) {
+      return;
+    }
+    query.after = files[files.length - 1].fileNameWithPath;
+  }
+}
+
+/**
+ * Creates a request handler, compatible with `http.createServer`, that exposes a vault through a minimal subset of the S3 API
+ * with path-style requests: ListBuckets, CreateBucket, HeadBucket, ListObjectsV2 (with prefix, delimiter, start-after and
+ * continuation tokens), PutObject, GetObject (with ranges and conditional requests), HeadObject, DeleteObject and CopyObject.
+ * The buckets are the top-level directories of the vault and a key is the path of a file below its bucket,
+ * e.g. the key 'images/logo.png' of the bucket 'assets' is the file '/assets/images/logo.png'.
+ *
+ * Every request must be signed (AWS Signature Version 4, in the 'Authorization' header or a presigned URL)
+ * with the configured key pair. The ETag of an object is derived from its modified time, it is not its MD5.
+ * Multipart uploads, versions, ACLs and tags are not supported and answered with 'NotImplemented'.
+ * @param storage - The vault to expose.
+ * @param options - The key pair the requests must be signed with, and optionally the region and the mount path.
+ * @returns A function that handles a request.
+ */
+export function createS3Handler(
+  storage: FileStorageManager,
+  options: S3HandlerOptions,
+) {
+  const basePath = (options.basePath ?? "").replace(/\/+$/, "");
+
+  const listObjects = async (
+    res: ServerResponse,
+    bucket: string,
+    query: URLSearchParams,
+  ) => {
+    const prefix = query.get("prefix") ?? "";
+    const delimiter = query.get("delimiter") ?? "";
+    const startAfter = query.get("start-after") ?? "";
+    const continuationToken = query.get("continuation-token");
+    const maxKeys = Math.min(
+      Number(query.get("max-keys") ?? MAX_KEYS),
+      MAX_KEYS,
+    );
+    const encode =
+      query.get("encoding-type") === "url"
+        ? awsEncode
+        : (value: string) => value;
+    if (!Number.isInteger(maxKeys) || maxKeys < 0) {
+      sendS3Error(res, "InvalidArgument");
+      return;
+    }
+    const after =
+      continuationToken === null
+        ? startAfter
+        : Buffer.from(continuationToken, "base64url").toString();
+
+    const contents: string[] = [];
+    const commonPrefixes: string[] = [];
+    let lastKey = "";
+    let isTruncated = false;
+    for await (const { key, file } of listKeys(
+      storage,
+      bucket,
+      prefix,
+      after,
+    )) {
+      const delimiterIndex =
+        delimiter === "" ? -1 : key.indexOf(delimiter, prefix.length);
+      const entry =
+        delimiterIndex === -1
+          ? key
+          : key.slice(0, delimiterIndex + delimiter.length);
+      if (entry <= after || entry === lastKey) {
+        continue;
+      }
+      if (contents.length + commonPrefixes.length >= maxKeys) {
+        isTruncated = true;
+        break;
+      }
+      lastKey = entry;
+      if (delimiterIndex !== -1) {
+        commonPrefixes.push(
+          `<CommonPrefixes><Prefix>${escapeXml(encode(entry))}</Prefix></CommonPrefixes>`,
+        );
+        continue;
+      }
+      contents.push(
+        `<Contents><Key>${escapeXml(encode(key))}</Key><LastModified>${new Date(file.mtime * 1000).toISOString()}</LastModified><ETag>${escapeXml(entityTag(file))}</ETag><Size>${file.sz}</Size><StorageClass>STANDARD</StorageClass></Contents>`,
+      );
+    }
+
+    sendXml(
+      res,
+      [
+        '<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">',
+        `<Name>${escapeXml(bucket)}</Name>`,
+        `<Prefix>${escapeXml(encode(prefix))}</Prefix>`,
+        delimiter === ""
+          ? ""
+          : `<Delimiter>${escapeXml(encode(delimiter))}</Delimiter>`,
+        `<MaxKeys>${maxKeys}</MaxKeys>`,
+        `<KeyCount>${contents.length + commonPrefixes.length}</KeyCount>`,
+        `<IsTruncated>${isTruncated}</IsTruncated>`,
+        query.get("encoding-type") === "url"
+          ? "<EncodingType>url</EncodingType>"
+          : "",
+        continuationToken === null
+          ? ""
+          : `<ContinuationToken>${escapeXml(continuationToken)}</ContinuationToken>`,
+        isTruncated
+          ? `<NextContinuationToken>${Buffer.from(lastKey).toString("base64url")}</NextContinuationToken>`
+          : "",
+        startAfter === ""
+          ? ""
+          : `<StartAfter>${escapeXml(encode(startAfter))}</StartAfter>`,
+        ...contents,
+        ...commonPrefixes,
+        "</ListBucketResult>",
+      ].join(""),
+    );
+  };
+
+  const copyObject = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    segments: string[],
+  ) => {
+    const copySource = header(req, "x-amz-copy-source") ?? "";
+    const source = decodePath(copySource.split("?")[0]);
+    if (source === undefined || source.length < 2) {
+      sendS3Error(res, "InvalidArgument");
+      return;
+    }
+    if (source.join("/") === segments.join("/")) {
+      sendS3Error(res, "InvalidRequest");
+      return;
+    }
+    const sourceFile = await storage.statFile(
+      source.slice(0, -1),
+      source[source.length - 1],
+    );
+    if (!sourceFile.success) {
+      sendS3Error(res, "NoSuchKey");
+      return;
+    }
+    const replaced = await storage.statFile(
+      segments.slice(0, -1),
+      segments[segments.length - 1],
+    );
+    // The replaced object is only deleted if the copy succeeds, a failure is thrown by the vault
+    // within the transaction and answered with its S3 error.
+    await storage.transaction(async (tx) => {
+      if (replaced.success) {
+        await tx.deleteFile(
+          segments.slice(0, -1),
+          segments[segments.length - 1],
+        );
+      }
+      await tx.copyFile(
+        source.slice(0, -1),
+        source[source.length - 1],
+        segments.slice(0, -1),
+        segments[segments.length - 1],
+        Math.round(Date.now() / 1000),
+      );
+    });
+    const { file } = await storage.statFile(
+      segments.slice(0, -1),
+      segments[segments.length - 1],
+    );
+    if (file === undefined) {
+      sendS3Error(res, "InternalError");
+      return;
+    }
+    sendXml(
+      res,
+      `<CopyObjectResult><LastModified>${new Date(file.mtime * 1000).toISOString()}</LastModified><ETag>${escapeXml(entityTag(file))}</ETag></CopyObjectResult>`,
+    );
+  };
+
+  const putObject = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    segments: string[],
+  ) => {
+    const payloadHash =
+      header(req, "x-amz-content-sha256") ?? "UNSIGNED-PAYLOAD";
+    let body: AsyncIterable<Buffer> = req;
+    if (payloadHash.startsWith("STREAMING-")) {
+      body = decodeAwsChunked(req);
+    } else if (/^[0-9a-f]{64}$/.test(payloadHash)) {
+      body = verifyPayload(req, payloadHash);
+    }
+    const result = await receiveFile(
+      storage,
+      req,
+      segments.slice(0, -1),
+      segments[segments.length - 1],
+      body,
+    );
+    if (!result.success) {
+      sendS3Error(res, result.error ?? "InternalError");
+      return;
+    }
+    const { file } = await storage.statFile(
+      segments.slice(0, -1),
+      segments[segments.length - 1],
+    );
+    res.writeHead(200, {
+      ETag: file === undefined ? "" : entityTag(file),
+      "Content-Length": 0,
+    });
+    res.end();
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (basePath !== "" && !`${url.pathname}/`.startsWith(`${basePath}/`)) {
+      sendS3Error(res, "NoSuchBucket");
+      return;
+    }
+    const path = url.pathname.slice(basePath.length);
+    const signatureError = verifySignature(req, url, url.pathname, options);
+    if (signatureError !== undefined) {
+      sendS3Error(res, signatureError);
+      return;
+    }
+    const segments = decodePath(path);
+    if (segments === undefined) {
+      sendS3Error(res, "InvalidArgument");
+      return;
+    }
+    if (SUBRESOURCES.some((name) => url.searchParams.has(name))) {
+      sendS3Error(res, "NotImplemented");
+      return;
+    }
+
+    const [bucket] = segments;
+    if (bucket === undefined) {
+      if (req.method !== "GET") {
+        sendS3Error(res, "MethodNotAllowed");
+        return;
+      }
+      const { directories } = await storage.listDirectories([]);
+      sendXml(
+        res,
+        `<ListAllMyBucketsResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><Owner><ID>${escapeXml(options.accessKeyId)}</ID></Owner><Buckets>${directories
+          .map(
+            ({ name }) =>
+              `<Bucket><Name>${escapeXml(name)}</Name><CreationDate>${new Date(0).toISOString()}</CreationDate></Bucket>`,
+          )
+          .join("")}</Buckets></ListAllMyBucketsResult>`,
+      );
+      return;
+    }
+
+    if (segments.length === 1) {
+      const exists = (await storage.statDirectory([bucket])).success;
+      switch (req.method) {
+        case "PUT": {
+          if (exists) {
+            sendS3Error(res, "BucketAlreadyOwnedByYou");
+            return;
+          }
+          const created = await storage.createDirectory([bucket]);
+          if (!created.success) {
+            sendS3Error(res, created.error);
+            return;
+          }
+          res.writeHead(200, { Location: `/${bucket}`, "Content-Length": 0 });
+          res.end();
+          return;
+        }
+        case "HEAD":
+        case "GET": {
+          if (!exists) {
+            sendS3Error(res, "NoSuchBucket");
+            return;
+          }
+          if (req.method === "HEAD") {
+            res.writeHead(200, { "Content-Length": 0 });
+            res.end();
+            return;
+          }
+          if (url.searchParams.get("list-type") !== "2") {
+            sendS3Error(res, "NotImplemented");
+            return;
+          }
+          await listObjects(res, bucket, url.searchParams);
+          return;
+        }
+      }
+      sendS3Error(res, "MethodNotAllowed");
+      return;
+    }
+
+    if (!(await storage.statDirectory([bucket])).success) {
+      sendS3Error(res, "NoSuchBucket");
+      return;
+    }
+    const keyPath = segments.slice(0, -1);
+    const fileName = segments[segments.length - 1];
+    switch (req.method) {
+      case "GET":
+      case "HEAD":
+        await sendFile(storage, req, res, keyPath, fileName, sendS3Error);
+        return;
+      case "PUT": {
+        if (path.endsWith("/")) {
+          const created = await storage.createDirectory(segments);
+          if (!created.success && created.error !== "DirectoryAlreadyExists") {
+            sendS3Error(res, created.error);
+            return;
+          }
+          res.writeHead(200, { "Content-Length": 0 });
+          res.end();
+          return;
+        }
+        if (header(req, "x-amz-copy-source") !== undefined) {
+          await copyObject(req, res, segments);
+          return;
+        }
+        await putObject(req, res, segments);
+        return;
+      }
+      case "DELETE": {
+        const deleted = await storage.deleteFile(keyPath, fileName);
+        if (!deleted.success && deleted.error !== "FileNotFound") {
+          sendS3Error(res, deleted.error);
+          return;
+        }
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+    }
+    sendS3Error(res, "MethodNotAllowed");
+  };
+
+  return toRequestListener(handle, sendS3Error);
+}
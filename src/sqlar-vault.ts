@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { runCli } from "./cli.ts";
+
+void runCli(process.argv.slice(2)).then((exitCode) => {
+  process.exitCode = exitCode;
+});
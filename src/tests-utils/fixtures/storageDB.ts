@@ -1,3 +1,4 @@
+import fs from "node:fs/promises";
 import { type FileStorageManager } from "../../FileStorageManager.ts";
 
 const state = {
@@ -10,4 +11,14 @@ const setStorageManagerState = (storageManager: FileStorageManager) => {
   state.storageManager = storageManager;
 };
 
-export { getStorageManagerState, setStorageManagerState };
+const deleteStorageDB = async (storageDBName: string) => {
+  await Promise.allSettled(
+    [storageDBName, `${storageDBName}-shm`, `${storageDBName}-wal`].map(
+      async (fileName) => {
+        await fs.unlink(fileName);
+      },
+    ),
+  );
+};
+
+export { getStorageManagerState, setStorageManagerState, deleteStorageDB };
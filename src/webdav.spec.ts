@@ -0,0 +1,219 @@
+import { describe, it, beforeAll, afterAll, expect, vi } from "vitest";
+import http from "node:http";
+import { type AddressInfo } from "node:net";
+import {
+  type FileStorageManager,
+  createSQLiteVault,
+} from "./FileStorageManager.ts";
+import { VaultError } from "./errors.ts";
+import { createWebDavHandler } from "./webdav.ts";
+import { deleteStorageDB } from "./tests-utils/fixtures/storageDB.ts";
+
+describe("WebDAV handler", () => {
+  const davStorageDBName = `test_webdav_${Date.now()}.sqlar`;
+  let storage: FileStorageManager;
+  let server: http.Server;
+  let baseUrl: string;
+
+  const dav = async (
+    method: string,
+    path: string,
+    headers: Record<string, string> = {},
+    body?: string,
+  ) => await fetch(`${baseUrl}${path}`, { method, headers, body });
+
+  beforeAll(async () => {
+    storage = await createSQLiteVault(davStorageDBName);
+    await storage.storeFile(
+      ["docs"],
+      "a & b.txt",
+      Buffer.from("ab"),
+      1700000000,
+      {
+        tags: { owner: "john" },
+      },
+    );
+    await storage.storeFile(["docs", "old"], "c.txt", Buffer.from("c"));
+    server = http.createServer(
+      createWebDavHandler(storage, { basePath: "/dav" }),
+    );
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/dav`;
+  });
+
+  it("should advertise the supported methods", async () => {
+    const response = await dav("OPTIONS", "/");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("dav")).toBe("1");
+    expect(response.headers.get("allow")).toContain("PROPFIND");
+  });
+
+  it("should list a collection and its children with PROPFIND", async () => {
+    const response = await dav("PROPFIND", "/docs", { Depth: "1" });
+    const xml = await response.text();
+
+    expect(response.status).toBe(207);
+    expect(xml).toContain("<D:href>/dav/docs/</D:href>");
+    expect(xml).toContain("<D:href>/dav/docs/old/</D:href>");
+    expect(xml).toContain("<D:href>/dav/docs/a%20%26%20b.txt</D:href>");
+    expect(xml).toContain("<D:displayname>a &amp; b.txt</D:displayname>");
+    expect(xml).toContain("<D:getcontentlength>2</D:getcontentlength>");
+    expect(xml.match(/<D:response>/g)).toHaveLength(3);
+
+    const file = await dav("PROPFIND", "/docs/a%20%26%20b.txt", { Depth: "0" });
+
+    expect(await file.text()).toContain(
+      `<D:getlastmodified>${new Date(1700000000 * 1000).toUTCString()}</D:getlastmodified>`,
+    );
+    expect((await dav("PROPFIND", "/missing", { Depth: "0" })).status).toBe(
+      404,
+    );
+    expect((await dav("PROPFIND", "/docs")).status).toBe(403);
+  });
+
+  it("should store, retrieve and delete files", async () => {
+    expect((await dav("PUT", "/docs/new.txt", {}, "new")).status).toBe(201);
+    expect((await dav("PUT", "/docs/new.txt", {}, "newer")).status).toBe(204);
+    expect(await (await dav("GET", "/docs/new.txt")).text()).toBe("newer");
+    expect((await dav("PUT", "/docs/new.txt/x.txt", {}, "x")).status).toBe(409);
+    expect((await dav("PUT", "/docs/old", {}, "x")).status).toBe(405);
+    expect((await dav("GET", "/docs/old")).status).toBe(405);
+
+    expect((await dav("DELETE", "/docs/new.txt")).status).toBe(204);
+    expect((await dav("GET", "/docs/new.txt")).status).toBe(404);
+    expect((await dav("DELETE", "/docs/new.txt")).status).toBe(404);
+  });
+
+  it("should create collections with MKCOL", async () => {
+    expect((await dav("MKCOL", "/docs/empty")).status).toBe(201);
+    expect((await dav("MKCOL", "/docs/empty")).status).toBe(405);
+    expect((await dav("MKCOL", "/docs/old/c.txt")).status).toBe(405);
+    expect((await dav("MKCOL", "/docs/old/c.txt/sub")).status).toBe(409);
+
+    const response = await dav("PROPFIND", "/docs/empty", { Depth: "1" });
+
+    expect(response.status).toBe(207);
+    expect((await response.text()).match(/<D:response>/g)).toHaveLength(1);
+
+    expect((await dav("DELETE", "/docs/empty")).status).toBe(204);
+    expect((await dav("PROPFIND", "/docs/empty", { Depth: "0" })).status).toBe(
+      404,
+    );
+  });
+
+  it("should copy files and collections with their metadata", async () => {
+    expect(
+      (
+        await dav("COPY", "/docs/a%20%26%20b.txt", {
+          Destination: `${baseUrl}/copies/a.txt`,
+        })
+      ).status,
+    ).toBe(201);
+
+    const { file } = await storage.retrieveFile(["copies"], "a.txt");
+
+    expect(file?.data).toEqual(Buffer.from("ab"));
+    expect(file?.tags).toEqual({ owner: "john" });
+    expect(file?.mtime).toBe(1700000000);
+
+    expect(
+      (
+        await dav("COPY", "/docs", {
+          Destination: `${baseUrl}/copies/docs`,
+        })
+      ).status,
+    ).toBe(201);
+    expect(
+      (await storage.retrieveFile(["copies", "docs", "old"], "c.txt")).file
+        ?.data,
+    ).toEqual(Buffer.from("c"));
+    expect((await storage.retrieveFile(["docs", "old"], "c.txt")).success).toBe(
+      true,
+    );
+
+    expect(
+      (
+        await dav("COPY", "/docs", {
+          Destination: `${baseUrl}/docs/old/docs`,
+        })
+      ).status,
+    ).toBe(403);
+  });
+
+  it("should answer the error of a copy that fails and keep the overwritten file", async () => {
+    vi.spyOn(storage, "copyFile").mockRejectedValueOnce(
+      new VaultError("QuotaExceeded"),
+    );
+
+    expect(
+      (
+        await dav("COPY", "/docs/old/c.txt", {
+          Destination: `${baseUrl}/docs/a%20%26%20b.txt`,
+        })
+      ).status,
+    ).toBe(507);
+    expect(
+      (await storage.retrieveFile(["docs"], "a & b.txt")).file?.data,
+    ).toEqual(Buffer.from("ab"));
+  });
+
+  it("should answer the error of a delete that fails", async () => {
+    const deleteFile = vi.spyOn(storage, "deleteFile").mockResolvedValue({
+      success: false,
+      error: "ReadOnlyVault",
+    });
+
+    expect((await dav("DELETE", "/docs/a%20%26%20b.txt")).status).toBe(403);
+    expect(
+      (
+        await dav("COPY", "/docs/old/c.txt", {
+          Destination: `${baseUrl}/docs/a%20%26%20b.txt`,
+        })
+      ).status,
+    ).toBe(403);
+    expect(
+      (await storage.retrieveFile(["docs"], "a & b.txt")).file?.data,
+    ).toEqual(Buffer.from("ab"));
+    deleteFile.mockRestore();
+  });
+
+  it("should move files and collections honoring Overwrite", async () => {
+    expect(
+      (
+        await dav("MOVE", "/copies/a.txt", {
+          Destination: `${baseUrl}/copies/docs/a%20%26%20b.txt`,
+          Overwrite: "F",
+        })
+      ).status,
+    ).toBe(412);
+    expect(
+      (
+        await dav("MOVE", "/copies/a.txt", {
+          Destination: `${baseUrl}/copies/docs/a%20%26%20b.txt`,
+        })
+      ).status,
+    ).toBe(204);
+    expect((await storage.retrieveFile(["copies"], "a.txt")).success).toBe(
+      false,
+    );
+
+    expect(
+      (
+        await dav("MOVE", "/copies/docs", {
+          Destination: `${baseUrl}/moved`,
+        })
+      ).status,
+    ).toBe(201);
+    expect((await storage.listFiles(["moved"])).totalFiles).toBe(2);
+    expect((await dav("PROPFIND", "/copies/docs", { Depth: "0" })).status).toBe(
+      404,
+    );
+    expect((await dav("MOVE", "/moved", {})).status).toBe(400);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await deleteStorageDB(davStorageDBName);
+  });
+});
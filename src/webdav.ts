@@ -0,0 +1,422 @@
+import { type IncomingMessage, type ServerResponse } from "http";
+import { type FileStorageManager } from "./FileStorageManager.ts";
+import { VaultError } from "./errors.ts";
+import {
+  contentTypeOf,
+  decodePath,
+  entityTag,
+  receiveFile,
+  sendError,
+  sendFile,
+  toRequestListener,
+} from "./http.ts";
+
+/**
+ * Options of `createWebDavHandler`.
+ */
+export interface WebDavHandlerOptions {
+  /**
+   * The path the handler is mounted on, it is removed from the request path and added to the returned hrefs (Default is "").
+   * Example: "/dav" | 'PROPFIND /dav/root/' lists '/root'.
+   */
+  basePath?: string;
+}
+
+const ALLOWED_METHODS =
+  "OPTIONS, PROPFIND, GET, HEAD, PUT, DELETE, MKCOL, MOVE, COPY";
+
+const PAGE_SIZE = 100;
+
+type Resource =
+  | {
+      isCollection: false;
+      segments: string[];
+      sz: number;
+      mtime: number;
+      contentType: string | null;
+    }
+  | { isCollection: true; segments: string[]; mtime: number };
+
+function escapeXml(value: string) {
+  return value.replace(
+    /[&<>"']/g,
+    (character) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&apos;",
+      })[character] ?? character,
+  );
+}
+
+async function findResource(
+  storage: FileStorageManager,
+  segments: string[],
+): Promise<Resource | undefined> {
+  const fileName = segments.at(-1);
+  if (fileName !== undefined) {
+    const { file } = await storage.statFile(segments.slice(0, -1), fileName);
+    if (file !== undefined) {
+      return {
+        isCollection: false,
+        segments,
+        sz: file.sz,
+        mtime: file.mtime,
+        contentType: file.contentType,
+      };
+    }
+  }
+  const { directory } = await storage.statDirectory(segments);
+  if (directory === undefined) {
+    return undefined;
+  }
+  return { isCollection: true, segments, mtime: directory.mtime };
+}
+
+async function* listChildren(storage: FileStorageManager, segments: string[]) {
+  for (let pageNumber = 1; ; pageNumber++) {
+    const { files, directories = [] } = await storage.listFiles(
+      segments,
+      PAGE_SIZE,
+      pageNumber,
+      "name",
+      "ASC",
+      false,
+    );
+    for (const directory of directories) {
+      yield {
+        isCollection: true,
+        segments: [...segments, directory.name],
+        mtime: directory.mtime,
+      } satisfies Resource;
+    }
+    for (const file of files) {
+      yield {
+        isCollection: false,
+        segments: file.fileNameWithPath.split("/").slice(1),
+        sz: file.sz,
+        mtime: file.mtime,
+        contentType: file.contentType,
+      } satisfies Resource;
+    }
+    if (files.length + directories.length < PAGE_SIZE) {
+      return;
+    }
+  }
+}
+
+async function isBelowFile(storage: FileStorageManager, segments: string[]) {
+  for (let index = 1; index < segments.length; index++) {
+    const { success } = await storage.statFile(
+      segments.slice(0, index - 1),
+      segments[index - 1],
+    );
+    if (success) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function deleteResource(storage: FileStorageManager, resource: Resource) {
+  if (resource.isCollection) {
+    return await storage.deleteDirectoryFiles(resource.segments, true);
+  }
+  return await storage.deleteFile(
+    resource.segments.slice(0, -1),
+    resource.segments[resource.segments.length - 1],
+  );
+}
+
+/**
+ * Creates a WebDAV (class 1) request handler, compatible with `http.createServer`, so a vault can be mounted
+ * as a network drive. It supports OPTIONS, PROPFIND (with a depth of 0 or 1), GET, HEAD, PUT, DELETE, MKCOL, MOVE and COPY,
+ * the collections are the directories of the vault, including those that only exist as a prefix of stored files.
+ *
+ * The error codes of the vault are answered with the status codes of WebDAV, e.g. 'FileNotFound' with 404,
+ * and 'FileAlreadyExists' with 405 on MKCOL or with 412 on MOVE and COPY without overwrite.
+ * PROPFIND always returns every property of the resources, and locks are not supported.
+ * @param storage - The vault to expose.
+ * @param options - (optional) The mount path of the handler.
+ * @returns A function that handles a request.
+ */
+export function createWebDavHandler(
+  storage: FileStorageManager,
+  options: WebDavHandlerOptions = {},
+) {
+  const basePath = (options.basePath ?? "").replace(/\/+$/, "");
+
+  const href = (resource: Resource) => {
+    const encoded = resource.segments.map(encodeURIComponent).join("/");
+    if (resource.isCollection) {
+      return `${basePath}/${encoded}${encoded === "" ? "" : "/"}`;
+    }
+    return `${basePath}/${encoded}`;
+  };
+
+  const propertiesOf = (resource: Resource) => {
+    const properties = [
+      `<D:displayname>${escapeXml(resource.segments.at(-1) ?? "")}</D:displayname>`,
+    ];
+    if (resource.mtime > 0) {
+      properties.push(
+        `<D:getlastmodified>${new Date(resource.mtime * 1000).toUTCString()}</D:getlastmodified>`,
+      );
+    }
+    if (resource.isCollection) {
+      properties.push("<D:resourcetype><D:collection/></D:resourcetype>");
+    } else {
+      properties.push(
+        "<D:resourcetype/>",
+        `<D:getcontentlength>${resource.sz}</D:getcontentlength>`,
+        `<D:getcontenttype>${escapeXml(resource.contentType ?? contentTypeOf(resource.segments[resource.segments.length - 1]))}</D:getcontenttype>`,
+        `<D:getetag>${escapeXml(entityTag(resource))}</D:getetag>`,
+      );
+    }
+    return `<D:response><D:href>${escapeXml(href(resource))}</D:href><D:propstat><D:prop>${properties.join("")}</D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>`;
+  };
+
+  const sendXml = (res: ServerResponse, status: number, body: string) => {
+    const xml = `<?xml version="1.0" encoding="utf-8"?>\n${body}`;
+    res.writeHead(status, {
+      "Content-Type": "application/xml; charset=utf-8",
+      "Content-Length": Buffer.byteLength(xml),
+    });
+    res.end(xml);
+  };
+
+  const destinationOf = (req: IncomingMessage) => {
+    const destination = req.headers.destination;
+    if (destination === undefined) {
+      return undefined;
+    }
+    const { pathname } = new URL(destination, "http://localhost");
+    if (basePath !== "" && !`${pathname}/`.startsWith(`${basePath}/`)) {
+      return undefined;
+    }
+    return decodePath(pathname.slice(basePath.length));
+  };
+
+  const transfer = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    source: Resource,
+  ) => {
+    const destination = destinationOf(req);
+    if (destination === undefined) {
+      sendError(res, "InvalidPath");
+      return;
+    }
+    const sourcePath = source.segments.join("/");
+    const destinationPath = destination.join("/");
+    if (
+      destination.length === 0 ||
+      (source.isCollection &&
+        `${destinationPath}/`.startsWith(`${sourcePath}/`)) ||
+      sourcePath === destinationPath
+    ) {
+      sendError(res, "InvalidPath", {}, 403);
+      return;
+    }
+    if (await isBelowFile(storage, destination)) {
+      sendError(res, "DirectoryNotFound", {}, 409);
+      return;
+    }
+    const existing = await findResource(storage, destination);
+    if (existing !== undefined) {
+      if (req.headers.overwrite?.toString().toUpperCase() === "F") {
+        sendError(
+          res,
+          existing.isCollection
+            ? "DirectoryAlreadyExists"
+            : "FileAlreadyExists",
+          {},
+          412,
+        );
+        return;
+      }
+    }
+
+    // The overwritten resource is only deleted if the move or copy succeeds, a failure is thrown by the vault
+    // within the transaction and answered with its status code.
+    await storage.transaction(async (tx) => {
+      if (existing !== undefined) {
+        const deleted = await deleteResource(tx, existing);
+        if (!deleted.success) {
+          throw new VaultError(deleted.error);
+        }
+      }
+      if (req.method === "MOVE") {
+        await (source.isCollection
+          ? tx.renameDirectory(source.segments, destination)
+          : tx.renameFile(
+              source.segments.slice(0, -1),
+              source.segments[source.segments.length - 1],
+              destination[destination.length - 1],
+              destination.slice(0, -1),
+            ));
+      } else if (!source.isCollection) {
+        await tx.copyFile(
+          source.segments.slice(0, -1),
+          source.segments[source.segments.length - 1],
+          destination.slice(0, -1),
+          destination[destination.length - 1],
+        );
+      } else if (req.headers.depth === "0") {
+        await tx.createDirectory(destination);
+      } else {
+        await tx.copyDirectory(source.segments, destination);
+      }
+    });
+    res.writeHead(existing === undefined ? 201 : 204);
+    res.end();
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (basePath !== "" && !`${url.pathname}/`.startsWith(`${basePath}/`)) {
+      sendError(res, "NotFound");
+      return;
+    }
+    const segments = decodePath(url.pathname.slice(basePath.length));
+    if (segments === undefined) {
+      sendError(res, "InvalidPath");
+      return;
+    }
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(200, {
+        DAV: "1",
+        Allow: ALLOWED_METHODS,
+        "MS-Author-Via": "DAV",
+        "Content-Length": 0,
+      });
+      res.end();
+      return;
+    }
+    if (req.method === "PUT") {
+      const existing = await findResource(storage, segments);
+      if (segments.length === 0 || existing?.isCollection === true) {
+        sendError(res, "MethodNotAllowed", { Allow: ALLOWED_METHODS });
+        return;
+      }
+      if (await isBelowFile(storage, segments)) {
+        sendError(res, "DirectoryNotFound", {}, 409);
+        return;
+      }
+      const result = await receiveFile(
+        storage,
+        req,
+        segments.slice(0, -1),
+        segments[segments.length - 1],
+      );
+      if (!result.success) {
+        sendError(res, result.error ?? "FileNotFound");
+        return;
+      }
+      res.writeHead(result.created === true ? 201 : 204);
+      res.end();
+      return;
+    }
+    if (req.method === "MKCOL") {
+      if (
+        Number(req.headers["content-length"] ?? 0) > 0 ||
+        req.headers["transfer-encoding"] !== undefined
+      ) {
+        sendError(res, "UnsupportedMediaType", {}, 415);
+        return;
+      }
+      if (await isBelowFile(storage, segments)) {
+        sendError(res, "DirectoryNotFound", {}, 409);
+        return;
+      }
+      const result = await storage.createDirectory(segments);
+      if (!result.success) {
+        sendError(
+          res,
+          result.error ?? "InvalidPath",
+          {
+            Allow: ALLOWED_METHODS,
+          },
+          405,
+        );
+        return;
+      }
+      res.writeHead(201);
+      res.end();
+      return;
+    }
+
+    const resource = await findResource(storage, segments);
+    if (resource === undefined) {
+      sendError(res, "FileNotFound");
+      return;
+    }
+
+    switch (req.method) {
+      case "PROPFIND": {
+        for await (const chunk of req) {
+          void chunk;
+        }
+        const depth = req.headers.depth ?? "infinity";
+        if (depth !== "0" && depth !== "1") {
+          sendXml(
+            res,
+            403,
+            '<D:error xmlns:D="DAV:"><D:propfind-finite-depth/></D:error>',
+          );
+          return;
+        }
+        const responses = [propertiesOf(resource)];
+        if (resource.isCollection && depth === "1") {
+          for await (const child of listChildren(storage, segments)) {
+            responses.push(propertiesOf(child));
+          }
+        }
+        sendXml(
+          res,
+          207,
+          `<D:multistatus xmlns:D="DAV:">${responses.join("")}</D:multistatus>`,
+        );
+        return;
+      }
+      case "GET":
+      case "HEAD":
+        if (resource.isCollection) {
+          sendError(res, "MethodNotAllowed", { Allow: ALLOWED_METHODS });
+          return;
+        }
+        await sendFile(
+          storage,
+          req,
+          res,
+          segments.slice(0, -1),
+          segments[segments.length - 1],
+        );
+        return;
+      case "DELETE": {
+        if (segments.length === 0) {
+          sendError(res, "InvalidPath", {}, 403);
+          return;
+        }
+        const deleted = await deleteResource(storage, resource);
+        if (!deleted.success) {
+          sendError(res, deleted.error);
+          return;
+        }
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+      case "MOVE":
+      case "COPY":
+        await transfer(req, res, resource);
+        return;
+    }
+    sendError(res, "MethodNotAllowed", { Allow: ALLOWED_METHODS });
+  };
+
+  return toRequestListener(handle);
+}